@@ -0,0 +1,63 @@
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Use implicit TLS (usually port 465). When false, STARTTLS is negotiated if offered. */
+  secure: boolean;
+  /** Refuse to send unless STARTTLS could be negotiated. */
+  requireTls: boolean;
+  /** Accept self-signed certificates, e.g. for a local sink. */
+  allowInvalidCertificates: boolean;
+  auth?: { user: string; pass: string };
+}
+
+export interface ServerConfig {
+  port: number;
+  /** Largest accepted request body, in bytes. */
+  maxBodyBytes: number;
+  /** File the unsubscribe requests are appended to, until the composer picks them up. */
+  unsubscribeLog: string;
+  /** Key the tokens in unsubscribe links are sealed with; without one, a random key lasts until restart. */
+  unsubscribeSecret?: string;
+  /** Bearer token the composer sends mail and reads unsubscribe requests with; without one, only local connections may. */
+  apiToken?: string;
+  smtp: SmtpConfig;
+}
+
+export interface SinkConfig {
+  port: number;
+  /** Directory the captured messages are written to. */
+  outputDir: string;
+}
+
+const flag = (value: string | undefined, fallback: boolean) =>
+  value === undefined ? fallback : ["1", "true", "yes"].includes(value.toLowerCase());
+
+const integer = (value: string | undefined, fallback: number, name: string) => {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+export const readServerConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => ({
+  port: integer(env.MAIL_API_PORT, 8787, "MAIL_API_PORT"),
+  maxBodyBytes: integer(env.MAIL_API_MAX_BODY_BYTES, 40 * 1024 * 1024, "MAIL_API_MAX_BODY_BYTES"),
+  unsubscribeLog: env.MAIL_UNSUBSCRIBE_LOG ?? ".mail-unsubscribes.jsonl",
+  unsubscribeSecret: env.MAIL_UNSUBSCRIBE_SECRET || undefined,
+  apiToken: env.MAIL_API_TOKEN || undefined,
+  smtp: {
+    host: env.SMTP_HOST ?? "127.0.0.1",
+    port: integer(env.SMTP_PORT, 2525, "SMTP_PORT"),
+    secure: flag(env.SMTP_SECURE, false),
+    requireTls: flag(env.SMTP_REQUIRE_TLS, false),
+    allowInvalidCertificates: flag(env.SMTP_ALLOW_INVALID_CERTS, false),
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS ?? "" } : undefined,
+  },
+});
+
+export const readSinkConfig = (env: NodeJS.ProcessEnv = process.env): SinkConfig => ({
+  port: integer(env.SMTP_SINK_PORT, 2525, "SMTP_SINK_PORT"),
+  outputDir: env.SMTP_SINK_DIR ?? ".mail-sink",
+});
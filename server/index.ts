@@ -0,0 +1,128 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { readServerConfig } from "./config";
+import { createRelay, RelayError, validateSendRequest, type Relay } from "./relay";
+import { createUnsubscribeTokens, signUnsubscribeLink, type UnsubscribeTokens } from "./unsubscribe-links";
+import { confirmPage, invalidLinkPage, unsubscribedPage } from "./unsubscribe-pages";
+import { createUnsubscribeLog, isPlausibleAddress, type UnsubscribeLog } from "./unsubscribes";
+
+// Unsubscribe forms carry one token, or the RFC 8058 one-click marker
+const MAX_FORM_BYTES = 16 * 1024;
+
+interface UnsubscribeContext {
+  log: UnsubscribeLog;
+  tokens: UnsubscribeTokens;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const sendHtml = (res: ServerResponse, status: number, html: string) => {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(html);
+};
+
+const readBody = async (req: IncomingMessage, maxBytes: number) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new RelayError(`Request body exceeds ${maxBytes} bytes`, false);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+const readJson = async (req: IncomingMessage, maxBytes: number) => {
+  const body = await readBody(req, maxBytes);
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new RelayError("Request body is not valid JSON", false);
+  }
+};
+
+// The token comes from the link in the List-Unsubscribe header, or from the confirmation form.
+// Only a token the relay issued names an address, so nobody can unsubscribe someone else.
+const handleUnsubscribe = async (
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  { log, tokens }: UnsubscribeContext,
+) => {
+  const form = req.method === "POST" ? new URLSearchParams(await readBody(req, MAX_FORM_BYTES)) : null;
+  const token = form?.get("token") || url.searchParams.get("token") || "";
+  const address = tokens.open(token);
+  if (address === null || !isPlausibleAddress(address)) {
+    sendHtml(res, 400, invalidLinkPage());
+    return;
+  }
+  if (!form) {
+    sendHtml(res, 200, confirmPage(address, token));
+    return;
+  }
+  await log.record(address);
+  sendHtml(res, 200, unsubscribedPage(address));
+};
+
+// Recipients reach the API to unsubscribe, so everything else is only for the composer:
+// callers with the API token, or any local caller when there is none
+const isComposer = (req: IncomingMessage, apiToken: string | undefined) => {
+  if (!apiToken) {
+    const remote = req.socket.remoteAddress ?? "";
+    return remote === "127.0.0.1" || remote === "::1" || remote === "::ffff:127.0.0.1";
+  }
+  const given = Buffer.from(req.headers.authorization ?? "");
+  const expected = Buffer.from(`Bearer ${apiToken}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const createMailServer = (
+  relay: Relay,
+  unsubscribes: UnsubscribeContext,
+  { maxBodyBytes, apiToken }: { maxBodyBytes: number; apiToken?: string },
+) =>
+  createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname !== "/api/unsubscribe" && !isComposer(req, apiToken)) {
+        sendJson(res, 401, { error: "Unauthorized", transient: false });
+      } else if (req.method === "POST" && url.pathname === "/api/send") {
+        const request = validateSendRequest(await readJson(req, maxBodyBytes));
+        sendJson(res, 200, await relay.send(signUnsubscribeLink(request, unsubscribes.tokens)));
+      } else if (req.method === "GET" && url.pathname === "/api/verify") {
+        await relay.verify();
+        sendJson(res, 200, { ok: true });
+      } else if ((req.method === "GET" || req.method === "POST") && url.pathname === "/api/unsubscribe") {
+        await handleUnsubscribe(req, res, url, unsubscribes);
+      } else if (req.method === "GET" && url.pathname === "/api/unsubscribes") {
+        sendJson(res, 200, unsubscribes.log.after(Number(url.searchParams.get("after")) || 0));
+      } else {
+        sendJson(res, 404, { error: "Not found" });
+      }
+    } catch (error) {
+      if (error instanceof RelayError) {
+        // 503 for failures worth retrying, 400 for requests that will never succeed as sent
+        sendJson(res, error.transient ? 503 : 400, { error: error.message, transient: error.transient });
+      } else {
+        console.error("Mail API error:", error);
+        sendJson(res, 500, { error: "Internal server error", transient: true });
+      }
+    }
+  });
+
+const config = readServerConfig();
+if (!config.unsubscribeSecret) {
+  console.warn("MAIL_UNSUBSCRIBE_SECRET is not set: unsubscribe links in messages sent now stop working on restart");
+}
+const unsubscribes: UnsubscribeContext = {
+  log: await createUnsubscribeLog(config.unsubscribeLog),
+  tokens: createUnsubscribeTokens(config.unsubscribeSecret ?? randomBytes(32).toString("hex")),
+};
+createMailServer(createRelay(config.smtp), unsubscribes, config).listen(config.port, () => {
+  console.log(`Mail API listening on http://localhost:${config.port}, relaying via ${config.smtp.host}:${config.smtp.port}`);
+});
@@ -0,0 +1,106 @@
+import nodemailer from "nodemailer";
+import type { NodemailerError } from "nodemailer";
+import type { SmtpConfig } from "./config";
+
+/**
+ * JSON body of `POST /api/send`: a message already encoded by the browser's
+ * MIME builder, relayed byte for byte, and the envelope to deliver it with.
+ */
+export interface SendRequest {
+  envelope: { from: string; to: string[] };
+  raw: string;
+}
+
+export interface SendResponse {
+  messageId: string;
+  accepted: string[];
+  rejected: { address: string; reason: string }[];
+}
+
+export class RelayError extends Error {
+  readonly transient: boolean;
+
+  constructor(message: string, transient: boolean) {
+    super(message);
+    this.name = "RelayError";
+    this.transient = transient;
+  }
+}
+
+const TRANSIENT_CODES = new Set(["ECONNECTION", "ETIMEDOUT", "ESOCKET", "EDNS", "ECONNREFUSED", "ECONNRESET"]);
+
+const isTransient = (error: NodemailerError) =>
+  error.responseCode !== undefined
+    ? error.responseCode >= 400 && error.responseCode < 500
+    : TRANSIENT_CODES.has(error.code ?? "");
+
+const toRelayError = (error: NodemailerError) =>
+  new RelayError(error.response ?? error.message, isTransient(error));
+
+const rejections = (addresses: string[], errors: NodemailerError[] = []) =>
+  addresses.map(address => ({
+    address,
+    reason: errors.find(e => e.recipient === address)?.response ?? "Recipient rejected",
+  }));
+
+export const validateSendRequest = (body: unknown): SendRequest => {
+  const request = body as SendRequest;
+  if (
+    !request ||
+    typeof request.envelope?.from !== "string" ||
+    !Array.isArray(request.envelope.to) ||
+    request.envelope.to.length === 0 ||
+    !request.envelope.to.every(to => typeof to === "string") ||
+    typeof request.raw !== "string"
+  ) {
+    throw new RelayError("Request must include an envelope (from, to) and the raw message", false);
+  }
+  return request;
+};
+
+export const createRelay = (config: SmtpConfig) => {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    requireTLS: config.requireTls,
+    auth: config.auth,
+    tls: { rejectUnauthorized: !config.allowInvalidCertificates },
+  });
+
+  return {
+    async send(request: SendRequest): Promise<SendResponse> {
+      try {
+        const info = await transporter.sendMail({
+          envelope: request.envelope,
+          raw: request.raw,
+        });
+        return {
+          messageId: info.messageId,
+          accepted: info.accepted.map(String),
+          rejected: rejections(info.rejected.map(String), info.rejectedErrors),
+        };
+      } catch (error) {
+        const smtpError = error as NodemailerError & { rejected?: string[] };
+        // Every recipient was refused permanently: report them individually rather than failing the request.
+        if (smtpError.code === "EENVELOPE" && smtpError.rejected?.length && !isTransient(smtpError)) {
+          return {
+            messageId: "",
+            accepted: [],
+            rejected: rejections(smtpError.rejected, smtpError.rejectedErrors),
+          };
+        }
+        throw toRelayError(smtpError);
+      }
+    },
+    async verify() {
+      try {
+        await transporter.verify();
+      } catch (error) {
+        throw toRelayError(error as NodemailerError);
+      }
+    },
+  };
+};
+
+export type Relay = ReturnType<typeof createRelay>;
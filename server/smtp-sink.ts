@@ -0,0 +1,70 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SMTPServer } from "smtp-server";
+import { readSinkConfig } from "./config";
+
+/**
+ * Local SMTP server for development: accepts every message and writes it to
+ * `SMTP_SINK_DIR` as `<id>.eml` (the raw message) plus `<id>.json` (the
+ * envelope). Nothing is ever delivered onwards.
+ *
+ * Recipients under the reserved `.invalid` TLD are refused with a 550 so
+ * per-recipient failures can be reproduced, matching the browser mock transport.
+ */
+
+const smtpError = (message: string, responseCode: number) =>
+  Object.assign(new Error(message), { responseCode });
+
+const config = readSinkConfig();
+let captured = 0;
+
+const server = new SMTPServer({
+  // Plain-text only: the relay would otherwise negotiate STARTTLS against a self-signed certificate.
+  disabledCommands: ["STARTTLS"],
+  authOptional: true,
+  allowInsecureAuth: true,
+  onAuth(auth, session, callback) {
+    callback(null, { user: auth.username });
+  },
+  onRcptTo(address, session, callback) {
+    if (address.address.toLowerCase().endsWith(".invalid")) {
+      return callback(smtpError(`5.1.1 Mailbox ${address.address} unavailable`, 550));
+    }
+    callback();
+  },
+  onData(stream, session, callback) {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("error", callback);
+    stream.on("end", async () => {
+      try {
+        captured += 1;
+        const id = `${new Date().toISOString().replace(/[:.]/g, "-")}-${captured}`;
+        await mkdir(config.outputDir, { recursive: true });
+        await writeFile(path.join(config.outputDir, `${id}.eml`), Buffer.concat(chunks));
+        await writeFile(
+          path.join(config.outputDir, `${id}.json`),
+          JSON.stringify(
+            {
+              mailFrom: session.envelope.mailFrom && session.envelope.mailFrom.address,
+              rcptTo: session.envelope.rcptTo.map(rcpt => rcpt.address),
+              user: session.user ?? null,
+              receivedAt: new Date().toISOString(),
+            },
+            null,
+            2,
+          ),
+        );
+        console.log(`Captured ${id} for ${session.envelope.rcptTo.length} recipient(s)`);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    });
+  },
+});
+
+server.on("error", error => console.error("SMTP sink error:", error));
+server.listen(config.port, () => {
+  console.log(`SMTP sink listening on port ${config.port}, writing messages to ${path.resolve(config.outputDir)}`);
+});
@@ -0,0 +1,69 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from "node:crypto";
+import type { SendRequest } from "./relay";
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Tokens that stand for one recipient's address in an unsubscribe link. The
+ * address is sealed with AES-256-GCM under a key derived from `secret`, so a
+ * token can be neither forged for another address nor read back from the link.
+ */
+export const createUnsubscribeTokens = (secret: string) => {
+  const key = createHmac("sha256", secret).update("mail-whisperer unsubscribe token").digest();
+
+  return {
+    issue(address: string) {
+      const iv = randomBytes(IV_BYTES);
+      const cipher = createCipheriv("aes-256-gcm", key, iv);
+      const sealed = Buffer.concat([cipher.update(address, "utf8"), cipher.final()]);
+      return Buffer.concat([iv, sealed, cipher.getAuthTag()]).toString("base64url");
+    },
+    /** The address a token was issued for, or null when it wasn't issued with this secret. */
+    open(token: string) {
+      const bytes = Buffer.from(token, "base64url");
+      if (bytes.length <= IV_BYTES + TAG_BYTES) return null;
+      try {
+        const decipher = createDecipheriv("aes-256-gcm", key, bytes.subarray(0, IV_BYTES));
+        decipher.setAuthTag(bytes.subarray(bytes.length - TAG_BYTES));
+        const address = Buffer.concat([
+          decipher.update(bytes.subarray(IV_BYTES, bytes.length - TAG_BYTES)),
+          decipher.final(),
+        ]);
+        return address.toString("utf8");
+      } catch {
+        return null;
+      }
+    },
+  };
+};
+
+export type UnsubscribeTokens = ReturnType<typeof createUnsubscribeTokens>;
+
+const HEADER_END = "\r\n\r\n";
+const LIST_UNSUBSCRIBE = /^list-unsubscribe(-post)?:/i;
+
+/**
+ * Adds the recipient's token to the List-Unsubscribe link the browser put in
+ * `request.raw`, and offers one-click unsubscribing (RFC 8058). A message to
+ * several recipients can't carry a link for each of them, so its header is
+ * dropped rather than relayed unsigned.
+ */
+export const signUnsubscribeLink = (request: SendRequest, tokens: UnsubscribeTokens): SendRequest => {
+  const end = request.raw.indexOf(HEADER_END);
+  if (end === -1) return request;
+
+  // Folded headers continue on lines starting with whitespace
+  const headers = request.raw.slice(0, end).split(/\r\n(?![ \t])/);
+  const link = headers.find(header => /^list-unsubscribe:/i.test(header));
+  if (!link) return request;
+
+  const others = headers.filter(header => !LIST_UNSUBSCRIBE.test(header));
+  const url = /<([^>]+)>/.exec(link.replace(/\r\n[ \t]+/g, ""))?.[1];
+  const target = url && request.envelope.to.length === 1 && URL.canParse(url) ? new URL(url) : null;
+  target?.searchParams.set("token", tokens.issue(request.envelope.to[0]));
+  const signed = target
+    ? [`List-Unsubscribe: <${target.href}>`, "List-Unsubscribe-Post: List-Unsubscribe=One-Click"]
+    : [];
+  return { ...request, raw: [...others, ...signed].join("\r\n") + request.raw.slice(end) };
+};
@@ -0,0 +1,48 @@
+/**
+ * The pages a recipient sees after following a List-Unsubscribe link. Opening
+ * the link only shows a confirmation form; nothing is recorded until it is
+ * submitted, so link scanners that fetch every URL in a message can't
+ * unsubscribe anyone. Mail clients skip the page and POST directly (RFC 8058).
+ * Either way the link's token, not a typed-in address, says who unsubscribes.
+ */
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const page = (title: string, body: string) =>
+  `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto; padding: 0 1rem; color: #1f2937; }
+  button { padding: 0.5rem 1rem; font: inherit; cursor: pointer; }
+  .error { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+${body}
+</body>
+</html>`;
+
+export const confirmPage = (address: string, token: string) =>
+  page(
+    "Unsubscribe",
+    `<form method="post">
+  <p>Stop sending email to ${escapeHtml(address)}?</p>
+  <input name="token" type="hidden" value="${escapeHtml(token)}">
+  <button type="submit">Unsubscribe</button>
+</form>`,
+  );
+
+export const invalidLinkPage = () =>
+  page(
+    "Link not recognized",
+    `<p class="error">This unsubscribe link is incomplete or was not issued by us. Open it again from the message you received, or reply to the sender.</p>`,
+  );
+
+export const unsubscribedPage = (address: string) =>
+  page("You have been unsubscribed", `<p>${escapeHtml(address)} will not be sent any more messages.</p>`);
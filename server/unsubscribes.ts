@@ -0,0 +1,53 @@
+import { appendFile, readFile } from "node:fs/promises";
+
+/** One recipient's request to stop receiving mail, as recorded by `POST /api/unsubscribe`. */
+export interface Unsubscribe {
+  address: string;
+  /** Epoch milliseconds. */
+  at: number;
+}
+
+/** JSON body of `GET /api/unsubscribes?after=<cursor>`. */
+export interface UnsubscribesResponse {
+  unsubscribes: Unsubscribe[];
+  /** Pass back as `after` to get only the requests recorded since. */
+  cursor: number;
+}
+
+// Deliberately loose: the browser validates each address before suppressing it
+const LOOKS_LIKE_ADDRESS = /^[^\s@<>]+@[^\s@<>]+$/;
+
+export const isPlausibleAddress = (address: string) => address.length <= 254 && LOOKS_LIKE_ADDRESS.test(address);
+
+/**
+ * Unsubscribe requests, appended to `file` one JSON object per line so they
+ * survive restarts. The composer picks them up by cursor, which is simply the
+ * number of requests it has already seen.
+ */
+export const createUnsubscribeLog = async (file: string) => {
+  const entries: Unsubscribe[] = [];
+  try {
+    const text = await readFile(file, "utf8");
+    for (const line of text.split("\n")) {
+      if (line.trim()) entries.push(JSON.parse(line));
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+
+  return {
+    async record(address: string) {
+      const entry: Unsubscribe = { address, at: Date.now() };
+      await appendFile(file, `${JSON.stringify(entry)}\n`);
+      entries.push(entry);
+      return entry;
+    },
+    after(cursor: number): UnsubscribesResponse {
+      // A cursor past the end means the log was cleared, so everything in it is new
+      const start = cursor <= entries.length ? Math.max(cursor, 0) : 0;
+      return { unsubscribes: entries.slice(start), cursor: entries.length };
+    },
+  };
+};
+
+export type UnsubscribeLog = Awaited<ReturnType<typeof createUnsubscribeLog>>;
@@ -1,27 +1,53 @@
+import { useEffect } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { createThrottle, createTransport, readMailConfig } from "@/lib/mail";
+import { startOutbox } from "@/lib/outbox";
+import { startUnsubscribeSync } from "@/lib/recipients";
 import Index from "./pages/Index";
+import Lists from "./pages/Lists";
+import Outbox from "./pages/Outbox";
+import Scheduled from "./pages/Scheduled";
+import Suppressions from "./pages/Suppressions";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
-);
+const App = () => {
+  // The outbox delivers in the background on every page, not just the composer
+  useEffect(() => {
+    const config = readMailConfig();
+    const stopOutbox = startOutbox(createTransport(config), createThrottle(config.throttle));
+    // Only the mail API records unsubscribe requests
+    const stopSync = config.transport === "http" ? startUnsubscribeSync(config.apiUrl, config.apiToken) : () => {};
+    return () => {
+      stopOutbox();
+      stopSync();
+    };
+  }, []);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/outbox" element={<Outbox />} />
+            <Route path="/scheduled" element={<Scheduled />} />
+            <Route path="/lists" element={<Lists />} />
+            <Route path="/suppressions" element={<Suppressions />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
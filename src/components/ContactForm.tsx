@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -6,26 +7,175 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
-import { Mail, Plus, X, Send, Paperclip, Trash2 } from "lucide-react";
+import { Mail, Plus, X, Send, Paperclip, Trash2, CalendarClock, Undo2 } from "lucide-react";
+import { PreSendChecklist } from "./PreSendChecklist";
 import { RecipientsManager } from "./RecipientsManager";
+import { SendLaterPicker } from "./SendLaterPicker";
+import { formatDistanceStrict } from "date-fns";
+import { useOutbox } from "@/hooks/use-outbox";
+import { useSuppressions } from "@/hooks/use-suppressions";
+import { useUndoHistory } from "@/hooks/use-undo-history";
+import {
+  contentTypeFor,
+  hasPlaceholders,
+  mergeFieldKey,
+  parseTemplate,
+  readMailConfig,
+  renderTemplate,
+  validateAddress,
+  type DeliveryStatusMap,
+  type MailMessage,
+  type RecipientRole,
+  type SendMode,
+} from "@/lib/mail";
+import {
+  enqueueMessage,
+  getJobsForMessage,
+  jobDeliveryStatus,
+  processOutbox,
+  retryJobs,
+  type OutboxJob,
+  type SendSchedule,
+} from "@/lib/outbox";
+import {
+  canonicalEmail,
+  getList,
+  indexAddresses,
+  mergeValuesFor,
+  missingMergeFields,
+  recipientWarnings,
+  toMailAddress,
+  type NormalizeOptions,
+  type Recipient,
+  type RecipientDetails,
+  type RecipientWarning,
+} from "@/lib/recipients";
+import { formatInTimeZone } from "@/lib/time-zone";
+
+// A malformed {{placeholder}} is reported under the field it is in
+const templateField = (field: z.ZodString) =>
+  field.superRefine((text, ctx) => {
+    const [error] = parseTemplate(text).errors;
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  });
 
 const contactFormSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
-  email: z.string().email("Please enter a valid email address"),
-  subject: z.string().min(5, "Subject must be at least 5 characters"),
-  message: z.string().min(10, "Message must be at least 10 characters"),
+  email: z.string().trim().superRefine((email, ctx) => {
+    const validation = validateAddress(email);
+    if (!validation.valid) ctx.addIssue({ code: z.ZodIssueCode.custom, message: validation.reason });
+  }),
+  subject: templateField(z.string().min(5, "Subject must be at least 5 characters")),
+  message: templateField(z.string().min(10, "Message must be at least 10 characters")),
 });
 
 type ContactFormData = z.infer<typeof contactFormSchema>;
 
+const sendModes: { value: SendMode; label: string; description: string }[] = [
+  { value: "individual", label: "Separate emails", description: "Each recipient gets a private copy addressed only to them" },
+  { value: "bcc", label: "One email, everyone in BCC", description: "Recipients cannot see who else received it" },
+  { value: "fields", label: "One email with To / CC / BCC", description: "Choose each recipient's field in the list" },
+];
+
+/** A sent message held back for the undo window, with the composer as it was when sent. */
+interface HeldSend {
+  message: MailMessage;
+  sendMode: SendMode;
+  snapshot: {
+    data: ContactFormData;
+    recipients: Recipient[];
+    recipientRoles: Record<string, RecipientRole>;
+    sendMode: SendMode;
+    attachedFiles: File[];
+  };
+  timer: ReturnType<typeof setTimeout>;
+  dismissToast: () => void;
+}
+
+/** The recipients list and everything edited with it, undone and redone as one. */
+interface RecipientListState {
+  recipients: Recipient[];
+  // Which header each recipient goes in, for the "fields" send mode; "to" when unset
+  recipientRoles: Record<string, RecipientRole>;
+}
+
+const emptyRecipientList: RecipientListState = { recipients: [], recipientRoles: {} };
+
+// Keeps a recipient's header when their address changes
+const renameRole = (roles: Record<string, RecipientRole>, email: string, next: string) => {
+  if (!(email in roles)) return roles;
+  const { [email]: role, ...rest } = roles;
+  return { ...rest, [next]: role };
+};
+
+const DIALOG_SELECTOR = '[role="dialog"], [role="alertdialog"]';
+
+const recipientCount = (count: number) => `${count} recipient${count !== 1 ? 's' : ''}`;
+
 export const ContactForm = () => {
-  const [recipients, setRecipients] = useState<string[]>([]);
+  const {
+    state: { recipients, recipientRoles },
+    commit: commitRecipients,
+    undo: undoRecipients,
+    redo: redoRecipients,
+    undoLabel,
+    redoLabel,
+  } = useUndoHistory(emptyRecipientList);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Recipients flagged by recipientWarnings, waiting for a decision before sending
+  const [checklist, setChecklist] = useState<{
+    flagged: { email: string; warnings: RecipientWarning[] }[];
+    /** Recipients with no value for some of the message's placeholders. */
+    missing: { email: string; fields: string[] }[];
+    /** Everyone who would be sent to, flagged recipients included. */
+    list: Recipient[];
+    proceed: (list: Recipient[]) => void;
+  } | null>(null);
+  const [normalizeOptions, setNormalizeOptions] = useState<NormalizeOptions>({ foldProviderAliases: false });
+  const [sendMode, setSendMode] = useState<SendMode>("individual");
   const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // When the current send started and how many jobs were already done then, for the time estimate
+  const [progressStart, setProgressStart] = useState<{ at: number; done: number } | null>(null);
+  // The outbox message last sent from this form, whose jobs drive the status badges
+  const [currentMessageId, setCurrentMessageId] = useState<string | null>(null);
+  // The message waiting out its undo window, if any, and when that window ends
+  const heldSendRef = useRef<HeldSend | null>(null);
+  const [heldUntil, setHeldUntil] = useState<number | null>(null);
+  const [clock, setClock] = useState(Date.now);
   const { toast } = useToast();
+  const { jobs } = useOutbox();
+  const { suppressionFor } = useSuppressions();
+  const { undoSendSeconds, unsubscribeUrl } = useMemo(() => readMailConfig(), []);
+
+  const currentJobs = useMemo(
+    () => jobs.filter(job => job.messageId === currentMessageId),
+    [jobs, currentMessageId],
+  );
+  const deliveryStatus = useMemo<DeliveryStatusMap>(
+    () => Object.fromEntries(currentJobs.map(job => [job.address, jobDeliveryStatus(job)])),
+    [currentJobs],
+  );
+
+  // Jobs that got their result for this pass, including those waiting out a retry delay
+  const now = Date.now();
+  const doneCount = currentJobs.filter(
+    job => job.state === "sent" || job.state === "failed" || job.state === "cancelled" ||
+      (job.state === "pending" && job.nextAttemptAt > now),
+  ).length;
+  const sentCount = currentJobs.filter(job => job.state === "sent").length;
+  const remainingMs = (() => {
+    if (!progressStart || doneCount <= progressStart.done) return null;
+    const perJob = (now - progressStart.at) / (doneCount - progressStart.done);
+    return perJob * (currentJobs.length - doneCount);
+  })();
 
   const form = useForm<ContactFormData>({
     resolver: zodResolver(contactFormSchema),
@@ -37,18 +187,144 @@ export const ContactForm = () => {
     },
   });
 
-  const handleAddRecipient = (email: string) => {
-    if (email && !recipients.includes(email)) {
-      setRecipients([...recipients, email]);
+  // The placeholders in the subject and message, and who has no value for them
+  const subjectText = form.watch("subject");
+  const messageText = form.watch("message");
+  const placeholderFields = useMemo(() => {
+    const fields = new Map<string, string>();
+    for (const { field } of [subjectText, messageText].flatMap(text => parseTemplate(text).placeholders)) {
+      if (!fields.has(mergeFieldKey(field))) fields.set(mergeFieldKey(field), field.trim());
     }
+    return [...fields.values()];
+  }, [subjectText, messageText]);
+  const missingCount = useMemo(
+    () => missingMergeFields([subjectText, messageText], recipients).length,
+    [subjectText, messageText, recipients],
+  );
+  // The preview shows the first recipient's copy when each one gets their own, and the template until there is one
+  const previewValues = sendMode !== "individual" ? {} : recipients.length > 0 ? mergeValuesFor(recipients[0]) : null;
+  const previewOf = (text: string) => (previewValues ? renderTemplate(text, previewValues) : text);
+
+  // The adding paths already report duplicates; this keeps the list clean if one slips through
+  const handleAddRecipients = useCallback((added: Recipient[]) =>
+    commitRecipients(`Added ${recipientCount(added.length)}`, prev => {
+      const known = indexAddresses(prev.recipients.map(recipient => recipient.email), normalizeOptions);
+      const kept = added.filter(recipient => {
+        const key = canonicalEmail(recipient.email, normalizeOptions);
+        if (known.has(key)) return false;
+        known.set(key, recipient.email);
+        return true;
+      });
+      return kept.length > 0 ? { ...prev, recipients: [...prev.recipients, ...kept] } : prev;
+    }), [commitRecipients, normalizeOptions]);
+
+  // The lists page links here with ?list=<id> to start a message to a saved list
+  useEffect(() => {
+    const listId = searchParams.get("list");
+    if (!listId) return;
+    setSearchParams(params => {
+      params.delete("list");
+      return params;
+    }, { replace: true });
+    getList(listId).then(list => {
+      if (!list) return;
+      handleAddRecipients(list.recipients);
+      toast({
+        title: "List Added",
+        description: `Recipients from "${list.name}" have been added.`,
+      });
+    }).catch(error => console.error("Failed to load list:", error));
+  }, [searchParams, setSearchParams, handleAddRecipients, toast]);
+
+  // Keeps the recipient's place and field; if the new address is already listed, the old entry just goes
+  const handleChangeEmail = (email: string, next: string) => {
+    commitRecipients(`Changed ${email} to ${next}`, prev => {
+      const key = canonicalEmail(next, normalizeOptions);
+      const clash = prev.recipients.some(
+        recipient => recipient.email !== email && canonicalEmail(recipient.email, normalizeOptions) === key,
+      );
+      return {
+        recipients: clash
+          ? prev.recipients.filter(recipient => recipient.email !== email)
+          : prev.recipients.map(recipient => (recipient.email === email ? { ...recipient, email: next } : recipient)),
+        recipientRoles: renameRole(prev.recipientRoles, email, next),
+      };
+    });
   };
 
-  const handleRemoveRecipient = (email: string) => {
-    setRecipients(recipients.filter(r => r !== email));
+  // The manager has already checked the new address against the rest of the list
+  const handleEditRecipient = (email: string, details: RecipientDetails) =>
+    commitRecipients(`Edited ${details.email}`, prev => ({
+      recipients: prev.recipients.map(recipient => (recipient.email === email ? { ...recipient, ...details } : recipient)),
+      recipientRoles: renameRole(prev.recipientRoles, email, details.email),
+    }));
+
+  const handleRemoveRecipients = (emails: string[]) => {
+    const removed = new Set(emails);
+    return commitRecipients(`Removed ${recipientCount(removed.size)}`, prev => ({
+      ...prev,
+      recipients: prev.recipients.filter(recipient => !removed.has(recipient.email)),
+    }));
   };
 
   const handleClearAll = () => {
-    setRecipients([]);
+    setCurrentMessageId(null);
+    return commitRecipients("Cleared all recipients", () => emptyRecipientList);
+  };
+
+  const handleChangeRole = (email: string, role: RecipientRole) => {
+    commitRecipients(`Moved ${email} to ${role.toUpperCase()}`, prev => ({
+      ...prev,
+      recipientRoles: { ...prev.recipientRoles, [email]: role },
+    }));
+  };
+
+  // A toast's Undo or Redo passes the change it is about, which may have been buried by later ones
+  const handleUndoRecipients = (change?: number) => {
+    const step = undoRecipients(change);
+    if (!step) {
+      if (change !== undefined) showOutdatedStep("undone");
+      return;
+    }
+    toast({
+      title: "Undone",
+      description: `${step.label}.`,
+      action: (
+        <ToastAction altText="Redo" onClick={() => handleRedoRecipients(step.id)}>
+          Redo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const handleRedoRecipients = (change?: number) => {
+    const step = redoRecipients(change);
+    if (!step) {
+      if (change !== undefined) showOutdatedStep("redone");
+      return;
+    }
+    toast({
+      title: "Redone",
+      description: `${step.label}.`,
+      action: (
+        <ToastAction altText="Undo" onClick={() => handleUndoRecipients(step.id)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const showOutdatedStep = (done: "undone" | "redone") =>
+    toast({
+      title: "Nothing Changed",
+      description: `The recipients have changed since, so that can no longer be ${done}. Use the buttons above the list instead.`,
+    });
+
+  const roleOf = (email: string): RecipientRole => (sendMode === "fields" ? recipientRoles[email] ?? "to" : "to");
+  const roleCounts = {
+    to: recipients.filter(({ email }) => roleOf(email) === "to").length,
+    cc: recipients.filter(({ email }) => roleOf(email) === "cc").length,
+    bcc: recipients.filter(({ email }) => roleOf(email) === "bcc").length,
   };
 
   const handleFileAttach = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -85,43 +361,313 @@ export const ContactForm = () => {
     setAttachedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
-  const onSubmit = async (data: ContactFormData) => {
-    if (recipients.length === 0) {
+  const reportDelivery = (messageJobs: OutboxJob[]) => {
+    const sent = messageJobs.filter(job => job.state === "sent").length;
+    const failed = messageJobs.filter(job => job.state === "failed").length;
+    const pending = messageJobs.filter(job => job.state === "pending").length;
+
+    if (failed === 0 && pending === 0) {
+      toast({
+        title: "Email Sent",
+        description: `Delivered to ${sent} recipient${sent !== 1 ? 's' : ''}.`,
+      });
+    } else {
+      const details = [`${sent} sent`];
+      if (failed > 0) details.push(`${failed} failed`);
+      if (pending > 0) details.push(`${pending} will be retried automatically`);
+      toast({
+        title: sent > 0 ? "Partially Sent" : "Email Not Sent Yet",
+        description: `${details.join(', ')}. The message is kept in the outbox.`,
+        variant: failed > 0 ? "destructive" : "default",
+      });
+    }
+  };
+
+  const resetComposer = () => {
+    form.reset();
+    setAttachedFiles([]);
+  };
+
+  const requireRecipients = () => {
+    if (recipients.length > 0) return true;
+    toast({
+      title: "No Recipients",
+      description: "Please add at least one recipient email address.",
+      variant: "destructive",
+    });
+    return false;
+  };
+
+  // Suppressed recipients stay listed, greyed out, but are never sent to
+  const suppressedCount = recipients.filter(({ email }) => suppressionFor(email)).length;
+  const suppressedNote = suppressedCount > 0
+    ? ` ${suppressedCount} suppressed recipient${suppressedCount !== 1 ? 's are' : ' is'} skipped.`
+    : "";
+
+  const addressesWithRole = (list: Recipient[], role: RecipientRole) =>
+    list.filter(({ email }) => roleOf(email) === role).map(toMailAddress);
+
+  const buildMessage = (data: ContactFormData, list: Recipient[]): MailMessage => ({
+    from: { address: data.email, name: data.name },
+    to: addressesWithRole(list, "to"),
+    cc: addressesWithRole(list, "cc"),
+    bcc: addressesWithRole(list, "bcc"),
+    subject: data.subject,
+    text: data.message,
+    attachments: attachedFiles.map(file => ({
+      filename: file.name,
+      contentType: contentTypeFor(file.name, file.type),
+      size: file.size,
+      content: file,
+    })),
+    date: new Date(),
+    // Recipients open the link from their mail client, so it can't be relative to the app
+    unsubscribeUrl: unsubscribeUrl ? new URL(unsubscribeUrl, window.location.href).href : undefined,
+    // Filled in for each recipient as the outbox sends it
+    mergeFields: [data.subject, data.message].some(hasPlaceholders)
+      ? Object.fromEntries(list.map(recipient => [recipient.email, mergeValuesFor(recipient)]))
+      : undefined,
+  });
+
+  const restoreComposer = (snapshot: HeldSend["snapshot"]) => {
+    form.reset(snapshot.data, { keepDefaultValues: true });
+    commitRecipients("Restored the recipients of the unsent message", () => ({
+      recipients: snapshot.recipients,
+      recipientRoles: snapshot.recipientRoles,
+    }));
+    setSendMode(snapshot.sendMode);
+    setAttachedFiles(snapshot.attachedFiles);
+  };
+
+  const deliver = async ({ message, sendMode: heldSendMode, snapshot }: HeldSend) => {
+    setIsLoading(true);
+    let queued = false;
+
+    try {
+      setProgressStart({ at: Date.now(), done: 0 });
+      const messageId = await enqueueMessage(message, { sendMode: heldSendMode });
+      queued = true;
+      setCurrentMessageId(messageId);
+
+      await processOutbox();
+      reportDelivery(await getJobsForMessage(messageId));
+    } catch (error) {
+      // Once queued the message goes out anyway; putting it back would invite sending it twice
+      if (queued) {
+        toast({
+          title: "Error",
+          description: "Your message was queued, but how its sending went couldn't be shown. Check the Outbox for it.",
+          variant: "destructive",
+        });
+        return;
+      }
+      restoreComposer(snapshot);
       toast({
-        title: "No Recipients",
-        description: "Please add at least one recipient email address.",
+        title: "Error",
+        description: "Failed to queue email. Your message is back in the composer, please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const releaseHeldSend = () => {
+    const held = heldSendRef.current;
+    heldSendRef.current = null;
+    setHeldUntil(null);
+    return held;
+  };
+
+  const handleUndoSend = () => {
+    const held = releaseHeldSend();
+    if (!held) return;
+    clearTimeout(held.timer);
+    held.dismissToast();
+    restoreComposer(held.snapshot);
+    toast({
+      title: "Sending Undone",
+      description: "Your message is back in the composer.",
+    });
+  };
+
+  // Suppressed recipients are left out, and flagged ones and those missing placeholder values go
+  // through the pre-send checklist first; `proceed` gets the final list
+  const checkRecipients = (data: ContactFormData, proceed: (list: Recipient[]) => void) => {
+    const templates = [data.subject, data.message];
+    if (sendMode !== "individual" && templates.some(hasPlaceholders)) {
+      toast({
+        title: "Placeholders Need Separate Emails",
+        description: "Everyone gets the same copy in this delivery mode, so placeholders can't be filled in for each recipient. Choose \"Separate emails\" to personalize the message.",
         variant: "destructive",
       });
       return;
     }
 
-    setIsLoading(true);
-    
-    // Simulate email sending (this is where Supabase integration would be used)
+    const list = recipients.filter(({ email }) => !suppressionFor(email));
+    if (list.length === 0) {
+      toast({
+        title: "No Recipients Left",
+        description: "Every recipient is on the suppression list. Remove them there to send to them again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const flagged = list
+      .map(({ email }) => ({ email, warnings: recipientWarnings(email) }))
+      .filter(({ warnings }) => warnings.length > 0);
+    const missing = missingMergeFields(templates, list);
+    if (flagged.length === 0 && missing.length === 0) proceed(list);
+    else setChecklist({ flagged, missing, list, proceed });
+  };
+
+  const handleSkipFlagged = () => {
+    if (!checklist) return;
+    const flagged = new Set([...checklist.flagged, ...checklist.missing].map(({ email }) => email));
+    const kept = checklist.list.filter(({ email }) => !flagged.has(email));
+    setChecklist(null);
+    if (kept.length === 0) {
+      toast({
+        title: "No Recipients Left",
+        description: "Every recipient was flagged. Fix or replace them, then send again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    commitRecipients(`Removed ${recipientCount(flagged.size)} flagged by the pre-send checklist`, prev => ({
+      ...prev,
+      recipients: prev.recipients.filter(({ email }) => !flagged.has(email)),
+    }));
+    checklist.proceed(kept);
+  };
+
+  const handleSendAnyway = () => {
+    if (!checklist) return;
+    setChecklist(null);
+    checklist.proceed(checklist.list);
+  };
+
+  const onSubmit = (data: ContactFormData) => {
+    if (!requireRecipients() || heldSendRef.current) return;
+    checkRecipients(data, list => holdSend(data, list));
+  };
+
+  const holdSend = (data: ContactFormData, list: Recipient[]) => {
+    const holdMs = undoSendSeconds * 1000;
+    const timer = setTimeout(() => {
+      const held = releaseHeldSend();
+      if (held) void deliver(held);
+    }, holdMs);
+    const { dismiss } = toast({
+      title: "Sending...",
+      description: `Your message goes to ${list.length} recipient${list.length !== 1 ? 's' : ''} in ${undoSendSeconds} seconds.${suppressedNote}`,
+      duration: holdMs,
+      action: (
+        <ToastAction altText="Undo sending" onClick={handleUndoSend}>
+          Undo
+        </ToastAction>
+      ),
+    });
+    heldSendRef.current = {
+      message: buildMessage(data, list),
+      sendMode,
+      // The whole list as it was, including the suppressed and flagged recipients left out of `list`
+      snapshot: { data, recipients, recipientRoles, sendMode, attachedFiles },
+      timer,
+      dismissToast: dismiss,
+    };
+    setHeldUntil(Date.now() + holdMs);
+
+    // The composer is cleared straight away; undo puts everything back.
+    // Recipients stay listed with their delivery status.
+    resetComposer();
+  };
+
+  // Ctrl+Z and Ctrl+Shift+Z undo and redo recipient edits, except while typing, where they edit the text,
+  // and while a dialog is open, whose contents could change underneath it
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== "z" || isLoading) return;
+      if (event.target instanceof Element && event.target.closest("input, textarea, select, [contenteditable]")) return;
+      if (document.querySelector(DIALOG_SELECTOR)) return;
+      event.preventDefault();
+      if (event.shiftKey) handleRedoRecipients();
+      else handleUndoRecipients();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Counts down the undo window on the send button
+  useEffect(() => {
+    if (heldUntil === null) return;
+    const interval = setInterval(() => setClock(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [heldUntil]);
+
+  // Closing the tab would drop a held message, so ask first
+  useEffect(() => {
+    if (heldUntil === null) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [heldUntil]);
+
+  // Navigating away ends the undo window early rather than losing the message. The toast outlives
+  // the composer, so it goes too: its Undo could no longer take the message back.
+  useEffect(() => () => {
+    const held = heldSendRef.current;
+    if (!held) return;
+    heldSendRef.current = null;
+    clearTimeout(held.timer);
+    held.dismissToast();
+    void enqueueMessage(held.message, { sendMode: held.sendMode }).then(() => processOutbox());
+  }, []);
+
+  const heldSecondsLeft = heldUntil === null ? 0 : Math.max(Math.ceil((heldUntil - clock) / 1000), 0);
+
+  const scheduleSend = (data: ContactFormData, schedule: SendSchedule) => {
+    if (!requireRecipients()) return;
+    checkRecipients(data, list => void enqueueScheduled(data, schedule, list));
+  };
+
+  const enqueueScheduled = async (data: ContactFormData, schedule: SendSchedule, list: Recipient[]) => {
     try {
-      console.log("Email data:", {
-        ...data,
-        recipients,
-        attachments: attachedFiles.map(f => ({ name: f.name, size: f.size, type: f.type })),
-        timestamp: new Date().toISOString(),
+      const messageId = await enqueueMessage(buildMessage(data, list), { sendMode, schedule });
+      setCurrentMessageId(messageId);
+      // Arms the outbox timer for the new send time
+      void processOutbox();
+
+      toast({
+        title: "Email Scheduled",
+        description: `Sends to ${list.length} recipient${list.length !== 1 ? 's' : ''} on ${formatInTimeZone(schedule.at, schedule.timeZone)}. You can still change it under Scheduled messages.${suppressedNote}`,
       });
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
+      resetComposer();
+    } catch (error) {
       toast({
-        title: "Email Prepared",
-        description: `Ready to send to ${recipients.length} recipient(s) with ${attachedFiles.length} attachment(s). Connect Supabase to enable actual email sending.`,
+        title: "Error",
+        description: "Failed to schedule email. Please try again.",
+        variant: "destructive",
       });
-      
-      // Reset form
-      form.reset();
-      setRecipients([]);
-      setAttachedFiles([]);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    const failed = currentJobs.filter(job => job.state === "failed");
+    if (!currentMessageId || failed.length === 0) return;
+
+    setIsLoading(true);
+    setProgressStart({ at: Date.now(), done: doneCount - failed.length });
+    try {
+      await retryJobs(failed.map(job => job.id));
+      reportDelivery(await getJobsForMessage(currentMessageId));
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to prepare email. Please try again.",
+        description: "Failed to retry sending. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -212,6 +758,16 @@ export const ContactForm = () => {
                         className="resize-none"
                       />
                     </FormControl>
+                    <FormDescription>
+                      {placeholderFields.length === 0
+                        ? 'Write {{name}} or {{company | default: "there"}} in the subject or message to personalize each email.'
+                        : `Personalized with ${placeholderFields.join(", ")}.` +
+                          (sendMode !== "individual"
+                            ? " Placeholders are only filled in when each recipient gets a separate email."
+                            : missingCount > 0
+                              ? ` ${missingCount} recipient${missingCount !== 1 ? 's have' : ' has'} no value for some of them.`
+                              : "")}
+                    </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -272,24 +828,85 @@ export const ContactForm = () => {
                 )}
               </div>
 
-              <Button
-                type="submit"
-                disabled={isLoading || recipients.length === 0}
-                className="w-full"
-                size="lg"
-              >
-                {isLoading ? (
-                  <div className="flex items-center gap-2">
-                    <div className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
-                    Preparing Email...
-                  </div>
+              {/* Send Mode */}
+              <div className="space-y-3">
+                <label className="text-sm font-medium">Delivery</label>
+                <RadioGroup
+                  value={sendMode}
+                  onValueChange={value => setSendMode(value as SendMode)}
+                  className="gap-2"
+                >
+                  {sendModes.map(mode => (
+                    <Label
+                      key={mode.value}
+                      htmlFor={`send-mode-${mode.value}`}
+                      className="flex items-start gap-3 rounded-md border p-3 font-normal cursor-pointer has-[:checked]:border-primary has-[:checked]:bg-primary/5"
+                    >
+                      <RadioGroupItem id={`send-mode-${mode.value}`} value={mode.value} className="mt-0.5" />
+                      <div className="space-y-0.5">
+                        <p className="text-sm font-medium">{mode.label}</p>
+                        <p className="text-xs text-muted-foreground">{mode.description}</p>
+                      </div>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  type="submit"
+                  disabled={isLoading || heldUntil !== null || recipients.length === 0}
+                  className="flex-1"
+                  size="lg"
+                >
+                  {heldUntil !== null ? (
+                    <div className="flex items-center gap-2">
+                      <div className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
+                      Sending in {heldSecondsLeft}s...
+                    </div>
+                  ) : isLoading ? (
+                    <div className="flex items-center gap-2">
+                      <div className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
+                      {currentJobs.length > 0 ? (
+                        <span>
+                          Sending {sentCount}/{currentJobs.length}
+                          {remainingMs !== null && remainingMs > 0 && (
+                            <span className="opacity-80"> · about {formatDistanceStrict(0, remainingMs)} left</span>
+                          )}
+                        </span>
+                      ) : (
+                        "Sending Email..."
+                      )}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <Send className="w-4 h-4" />
+                      Send to {recipients.length} Recipient{recipients.length !== 1 ? 's' : ''}
+                    </div>
+                  )}
+                </Button>
+                {heldUntil !== null ? (
+                  <Button type="button" variant="outline" size="lg" onClick={handleUndoSend}>
+                    <Undo2 className="w-4 h-4 mr-2" />
+                    Undo
+                  </Button>
                 ) : (
-                  <div className="flex items-center gap-2">
-                    <Send className="w-4 h-4" />
-                    Send to {recipients.length} Recipient{recipients.length !== 1 ? 's' : ''}
-                  </div>
+                  <SendLaterPicker onConfirm={schedule => form.handleSubmit(data => scheduleSend(data, schedule))()}>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="lg"
+                      disabled={isLoading || recipients.length === 0}
+                    >
+                      <CalendarClock className="w-4 h-4 mr-2" />
+                      Send later
+                    </Button>
+                  </SendLaterPicker>
                 )}
-              </Button>
+              </div>
+              {isLoading && currentJobs.length > 0 && (
+                <Progress value={(doneCount / currentJobs.length) * 100} className="h-2" />
+              )}
             </form>
           </Form>
         </CardContent>
@@ -299,9 +916,22 @@ export const ContactForm = () => {
       <div className="space-y-6">
         <RecipientsManager
           recipients={recipients}
-          onAddRecipient={handleAddRecipient}
-          onRemoveRecipient={handleRemoveRecipient}
+          onAddRecipients={handleAddRecipients}
+          onRemoveRecipients={handleRemoveRecipients}
+          onChangeEmail={handleChangeEmail}
+          onEditRecipient={handleEditRecipient}
           onClearAll={handleClearAll}
+          onUndo={handleUndoRecipients}
+          onRedo={handleRedoRecipients}
+          undoLabel={undoLabel}
+          redoLabel={redoLabel}
+          deliveryStatus={deliveryStatus}
+          onRetryFailed={handleRetryFailed}
+          isSending={isLoading}
+          recipientRoles={sendMode === "fields" ? recipientRoles : undefined}
+          onChangeRole={sendMode === "fields" ? handleChangeRole : undefined}
+          normalizeOptions={normalizeOptions}
+          onNormalizeOptionsChange={setNormalizeOptions}
         />
         
         {/* Email Preview */}
@@ -319,17 +949,27 @@ export const ContactForm = () => {
               <div>
                 <span className="text-muted-foreground">Recipients:</span>
                 <p className="font-medium">{recipients.length} recipient{recipients.length !== 1 ? 's' : ''}</p>
+                <p className="text-xs text-muted-foreground">
+                  {sendMode === "individual"
+                    ? `${recipients.length} separate email${recipients.length !== 1 ? 's' : ''}`
+                    : sendMode === "bcc"
+                      ? "One email, all in BCC"
+                      : `To ${roleCounts.to} · CC ${roleCounts.cc} · BCC ${roleCounts.bcc}`}
+                </p>
               </div>
             </div>
             <div>
               <span className="text-muted-foreground">Subject:</span>
-              <p className="font-medium">{form.watch("subject") || "Email subject will appear here"}</p>
+              <p className="font-medium">{previewOf(subjectText) || "Email subject will appear here"}</p>
             </div>
             <div>
               <span className="text-muted-foreground">Message Preview:</span>
               <div className="bg-muted/50 rounded-md p-3 text-sm max-h-32 overflow-y-auto">
-                {form.watch("message") || "Your message content will appear here..."}
+                {previewOf(messageText) || "Your message content will appear here..."}
               </div>
+              {placeholderFields.length > 0 && recipients.length > 0 && sendMode === "individual" && (
+                <p className="text-xs text-muted-foreground mt-1">As {recipients[0].email} will see it</p>
+              )}
             </div>
             {attachedFiles.length > 0 && (
               <div>
@@ -350,6 +990,14 @@ export const ContactForm = () => {
           </CardContent>
         </Card>
       </div>
+
+      <PreSendChecklist
+        flagged={checklist?.flagged ?? []}
+        missing={checklist?.missing ?? []}
+        onCancel={() => setChecklist(null)}
+        onSkipFlagged={handleSkipFlagged}
+        onSendAnyway={handleSendAnyway}
+      />
     </div>
   );
 };
\ No newline at end of file
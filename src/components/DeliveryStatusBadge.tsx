@@ -0,0 +1,30 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { AlertCircle, Ban, CalendarClock, CheckCircle2, Clock, Loader2, RotateCw } from "lucide-react";
+import type { DeliveryState, DeliveryStatus } from "@/lib/mail";
+
+const stateStyles: Record<DeliveryState, { label: string; className: string; icon: typeof Clock }> = {
+  scheduled: { label: "Scheduled", className: "bg-sky-100 text-sky-700", icon: CalendarClock },
+  queued: { label: "Queued", className: "bg-muted text-muted-foreground", icon: Clock },
+  sending: { label: "Sending", className: "bg-primary/15 text-primary", icon: Loader2 },
+  sent: { label: "Sent", className: "bg-green-100 text-green-700", icon: CheckCircle2 },
+  failed: { label: "Failed", className: "bg-destructive/15 text-destructive", icon: AlertCircle },
+  retrying: { label: "Retrying", className: "bg-amber-100 text-amber-700", icon: RotateCw },
+  cancelled: { label: "Cancelled", className: "bg-muted text-muted-foreground line-through", icon: Ban },
+};
+
+interface DeliveryStatusBadgeProps {
+  status: DeliveryStatus;
+}
+
+export const DeliveryStatusBadge = ({ status }: DeliveryStatusBadgeProps) => {
+  const { label, className, icon: Icon } = stateStyles[status.state];
+
+  return (
+    <Badge variant="outline" className={cn("gap-1 border-transparent font-medium shrink-0", className)}>
+      <Icon className={cn("w-3 h-3", status.state === "sending" && "animate-spin")} />
+      {label}
+      {status.attempts > 1 && <span className="opacity-70">×{status.attempts}</span>}
+    </Badge>
+  );
+};
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cn } from "@/lib/utils";
+import type { ImportRow, ImportRowReview, ImportRowStatus } from "@/lib/recipients";
+
+// Rendering thousands of inputs at once makes typing sluggish
+const PAGE_SIZE = 200;
+
+type ReviewFilter = ImportRowStatus | "all";
+
+const filters: { value: ReviewFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "new", label: "New" },
+  { value: "duplicate", label: "Duplicates" },
+  { value: "invalid", label: "Invalid" },
+  { value: "suppressed", label: "Suppressed" },
+];
+
+const statusStyles: Record<ImportRowStatus, { label: string; className: string }> = {
+  new: { label: "New", className: "bg-green-100 text-green-700" },
+  duplicate: { label: "Duplicate", className: "bg-amber-100 text-amber-700" },
+  invalid: { label: "Invalid", className: "bg-destructive/15 text-destructive" },
+  suppressed: { label: "Suppressed", className: "bg-muted text-muted-foreground" },
+};
+
+interface ImportReviewTableProps {
+  rows: ImportRow[];
+  /** The review of each row, by index. */
+  reviews: ImportRowReview[];
+  /** Rows, by row number, left out although they could be imported. */
+  excluded: Set<number>;
+  onToggleRows: (rows: number[], selected: boolean) => void;
+  onEditEmail: (row: number, email: string) => void;
+}
+
+export const ImportReviewTable = ({ rows, reviews, excluded, onToggleRows, onEditEmail }: ImportReviewTableProps) => {
+  const [filter, setFilter] = useState<ReviewFilter>("all");
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  // Rows edited under the current filter stay put, even once the fix moves them to another status
+  const [pinned, setPinned] = useState<Set<number>>(new Set());
+
+  const entries = rows.map((row, index) => ({ row, review: reviews[index] }));
+  const counts = Object.fromEntries(
+    filters.map(({ value }) => [value, entries.filter(({ review }) => value === "all" || review.status === value).length]),
+  ) as Record<ReviewFilter, number>;
+  const visible = entries.filter(({ row, review }) => filter === "all" || review.status === filter || pinned.has(row.row));
+  const selectable = visible.filter(({ review }) => review.status === "new").map(({ row }) => row.row);
+  const allSelected = selectable.length > 0 && selectable.every(row => !excluded.has(row));
+
+  const handleFilterChange = (value: string) => {
+    setFilter(value as ReviewFilter);
+    setLimit(PAGE_SIZE);
+    setPinned(new Set());
+  };
+
+  const handleEdit = (row: number, email: string) => {
+    setPinned(prev => new Set(prev).add(row));
+    onEditEmail(row, email);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Tabs value={filter} onValueChange={handleFilterChange}>
+        <TabsList>
+          {filters.map(({ value, label }) => (
+            <TabsTrigger key={value} value={value}>
+              {label} ({counts[value]})
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="rounded-md border max-h-[45vh] overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  disabled={selectable.length === 0}
+                  onCheckedChange={checked => onToggleRows(selectable, checked === true)}
+                  aria-label="Select all importable rows"
+                />
+              </TableHead>
+              <TableHead className="w-14">Row</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-sm text-muted-foreground py-6">
+                  No rows here
+                </TableCell>
+              </TableRow>
+            ) : visible.slice(0, limit).map(({ row, review }) => (
+              <TableRow key={row.row} className={cn(review.status !== "new" && "bg-muted/30")}>
+                <TableCell className="py-2">
+                  <Checkbox
+                    checked={review.status === "new" && !excluded.has(row.row)}
+                    disabled={review.status !== "new"}
+                    onCheckedChange={checked => onToggleRows([row.row], checked === true)}
+                    aria-label={`Import row ${row.row}`}
+                  />
+                </TableCell>
+                <TableCell className="py-2 text-xs text-muted-foreground">{row.row}</TableCell>
+                <TableCell className="py-2 min-w-[14rem]">
+                  <Input
+                    value={row.email}
+                    onChange={(e) => handleEdit(row.row, e.target.value)}
+                    className={cn("h-8 text-sm", review.status === "invalid" && "border-destructive/50")}
+                    aria-label={`Email in row ${row.row}`}
+                  />
+                </TableCell>
+                <TableCell className="py-2 text-sm max-w-[10rem] truncate">{row.name ?? "—"}</TableCell>
+                <TableCell className="py-2">
+                  <Badge variant="outline" className={cn("border-transparent", statusStyles[review.status].className)}>
+                    {statusStyles[review.status].label}
+                  </Badge>
+                  {review.reason && <p className="text-xs text-muted-foreground mt-1">{review.reason}</p>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {visible.length > limit && (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Showing {limit} of {visible.length} rows</span>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setLimit(limit + PAGE_SIZE)}>
+            Show more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,354 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { ImportReviewTable } from "@/components/ImportReviewTable";
+import { downloadFile } from "@/lib/download";
+import { ArrowLeft, Download, FileSpreadsheet, Upload } from "lucide-react";
+import {
+  columnNames,
+  guessColumnMapping,
+  importRowToRecipient,
+  indexAddresses,
+  readImportRows,
+  rejectedRowsReport,
+  reviewImportRows,
+  type ColumnMapping,
+  type NormalizeOptions,
+  type SpreadsheetImport,
+  type SuppressionMatcher,
+  type WorkbookSheet,
+} from "@/lib/recipients";
+
+const PREVIEW_ROWS = 5;
+const HEADER_ROW_CHOICES = 10;
+const NONE = "none";
+
+interface ImportWizardProps {
+  fileName: string;
+  sheets: WorkbookSheet[];
+  /** Addresses already on the list, reported as duplicates. */
+  existingEmails: string[];
+  normalizeOptions?: NormalizeOptions;
+  /** Finds addresses on the suppression list, which are never imported. */
+  suppressionFor?: SuppressionMatcher;
+  onImport: (result: SpreadsheetImport) => void;
+  onClose: () => void;
+}
+
+type WizardStep = "columns" | "review";
+
+export const ImportWizard = ({
+  fileName,
+  sheets,
+  existingEmails,
+  normalizeOptions,
+  suppressionFor,
+  onImport,
+  onClose,
+}: ImportWizardProps) => {
+  const [sheetIndex, setSheetIndex] = useState(() => Math.max(sheets.findIndex(sheet => sheet.grid.length > 0), 0));
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(sheets[sheetIndex]?.grid ?? []));
+  const [step, setStep] = useState<WizardStep>("columns");
+  // Emails fixed during review, by row number
+  const [edits, setEdits] = useState<Map<number, string>>(new Map());
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+
+  const grid = useMemo(() => sheets[sheetIndex]?.grid ?? [], [sheets, sheetIndex]);
+  const names = columnNames(grid, mapping.headerRow);
+  const firstDataRow = mapping.headerRow === null ? 0 : mapping.headerRow + 1;
+  const previewRows = grid.slice(firstDataRow, firstDataRow + PREVIEW_ROWS);
+
+  const baseRows = useMemo(() => step === "review" ? readImportRows(grid, mapping) : [], [step, grid, mapping]);
+  const rows = useMemo(
+    () => baseRows.map(row => edits.has(row.row) ? { ...row, email: edits.get(row.row)! } : row),
+    [baseRows, edits],
+  );
+  const existing = useMemo(() => indexAddresses(existingEmails, normalizeOptions), [existingEmails, normalizeOptions]);
+  const reviews = useMemo(
+    () => reviewImportRows(rows, existing, normalizeOptions, suppressionFor),
+    [rows, existing, normalizeOptions, suppressionFor],
+  );
+
+  const selected = rows.filter((row, index) => reviews[index].status === "new" && !excluded.has(row.row));
+  const rejected = rows.flatMap((row, index) => {
+    const { status, reason } = reviews[index];
+    if (status !== "new") return [{ row, reason: reason! }];
+    return excluded.has(row.row) ? [{ row, reason: "Deselected" }] : [];
+  });
+
+  // Fixes and selections belong to the rows of one mapping, so start over whenever it may have changed
+  const handleReview = () => {
+    setEdits(new Map());
+    setExcluded(new Set());
+    setStep("review");
+  };
+
+  const handleEditEmail = (row: number, email: string) => {
+    setEdits(prev => new Map(prev).set(row, email));
+  };
+
+  const handleToggleRows = (toggled: number[], isSelected: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      toggled.forEach(row => isSelected ? next.delete(row) : next.add(row));
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    onImport({
+      recipients: selected.map(row => importRowToRecipient(row, fileName)),
+      skipped: {
+        duplicate: reviews.filter(review => review.status === "duplicate").length,
+        invalid: reviews.filter(review => review.status === "invalid").length,
+        suppressed: reviews.filter(review => review.status === "suppressed").length,
+        deselected: reviews.filter(review => review.status === "new").length - selected.length,
+      },
+    });
+  };
+
+  const handleDownloadRejected = () => {
+    const baseName = fileName.replace(/\.[^.]+$/, "");
+    downloadFile(rejectedRowsReport(rejected, names), `${baseName}-rejected.csv`, "text/csv;charset=utf-8");
+  };
+
+  const handleSheetChange = (value: string) => {
+    const index = Number(value);
+    setSheetIndex(index);
+    setMapping(guessColumnMapping(sheets[index].grid));
+  };
+
+  const handleHeaderRowChange = (value: string) => {
+    setMapping(guessColumnMapping(grid, value === NONE ? null : Number(value)));
+  };
+
+  // A column has one role at a time, so picking it for one takes it away from the others
+  const handleEmailColumnChange = (value: string) => {
+    const column = Number(value);
+    setMapping(prev => ({
+      ...prev,
+      emailColumn: column,
+      nameColumn: prev.nameColumn === column ? null : prev.nameColumn,
+      fieldColumns: prev.fieldColumns.filter(field => field !== column),
+    }));
+  };
+
+  const handleNameColumnChange = (value: string) => {
+    const column = value === NONE ? null : Number(value);
+    setMapping(prev => ({
+      ...prev,
+      nameColumn: column,
+      fieldColumns: prev.fieldColumns.filter(field => field !== column),
+    }));
+  };
+
+  const handleFieldToggle = (column: number, checked: boolean) => {
+    setMapping(prev => ({
+      ...prev,
+      fieldColumns: checked
+        ? [...prev.fieldColumns, column].sort((a, b) => a - b)
+        : prev.fieldColumns.filter(field => field !== column),
+    }));
+  };
+
+  const roleOf = (column: number) =>
+    column === mapping.emailColumn ? "Email"
+      : column === mapping.nameColumn ? "Name"
+        : mapping.fieldColumns.includes(column) ? "Field"
+          : null;
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-primary" />
+            Import Recipients
+          </DialogTitle>
+          <DialogDescription>
+            {step === "columns"
+              ? `Choose which columns of ${fileName} hold the email address, name and merge fields.`
+              : "Untick rows to leave them out, or fix an address in place, before adding them to the recipients list."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "columns" ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="space-y-1.5">
+                <Label>Sheet</Label>
+                <Select value={String(sheetIndex)} onValueChange={handleSheetChange}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sheets.map((sheet, index) => (
+                      <SelectItem key={sheet.name} value={String(index)}>
+                        {sheet.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Header row</Label>
+                <Select value={mapping.headerRow === null ? NONE : String(mapping.headerRow)} onValueChange={handleHeaderRowChange}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No header row</SelectItem>
+                    {grid.slice(0, HEADER_ROW_CHOICES).map((_, row) => (
+                      <SelectItem key={row} value={String(row)}>
+                        Row {row + 1}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Email column</Label>
+                <Select value={String(mapping.emailColumn)} onValueChange={handleEmailColumnChange} disabled={names.length === 0}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {names.map((name, column) => (
+                      <SelectItem key={column} value={String(column)}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Name column</Label>
+                <Select
+                  value={mapping.nameColumn === null ? NONE : String(mapping.nameColumn)}
+                  onValueChange={handleNameColumnChange}
+                  disabled={names.length === 0}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No name</SelectItem>
+                    {names.map((name, column) => column !== mapping.emailColumn && (
+                      <SelectItem key={column} value={String(column)}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {grid.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">This sheet is empty.</p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label>Keep as merge fields</Label>
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {names.map((name, column) => column !== mapping.emailColumn && column !== mapping.nameColumn && (
+                      <label key={column} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={mapping.fieldColumns.includes(column)}
+                          onCheckedChange={checked => handleFieldToggle(column, checked === true)}
+                        />
+                        {name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Preview</Label>
+                  <div className="rounded-md border overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          {names.map((name, column) => (
+                            <TableHead key={column} className={cn("whitespace-nowrap", !roleOf(column) && "opacity-50")}>
+                              <div className="flex items-center gap-1.5">
+                                {name}
+                                {roleOf(column) && (
+                                  <Badge variant={roleOf(column) === "Email" ? "default" : "secondary"} className="text-[10px] px-1.5 py-0">
+                                    {roleOf(column)}
+                                  </Badge>
+                                )}
+                              </div>
+                            </TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {previewRows.map((row, index) => (
+                          <TableRow key={index}>
+                            {row.map((cell, column) => (
+                              <TableCell
+                                key={column}
+                                className={cn("max-w-[12rem] truncate py-2", !roleOf(column) && "text-muted-foreground/60")}
+                              >
+                                {cell}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Showing {previewRows.length} of {Math.max(grid.length - firstDataRow, 0)} rows. Greyed-out columns are not imported.
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+        ) : (
+          <ImportReviewTable
+            rows={rows}
+            reviews={reviews}
+            excluded={excluded}
+            onToggleRows={handleToggleRows}
+            onEditEmail={handleEditEmail}
+          />
+        )}
+
+        <DialogFooter>
+          {step === "columns" ? (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleReview} disabled={grid.length === 0}>
+                Next
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={handleDownloadRejected} disabled={rejected.length === 0} className="sm:mr-auto">
+                <Download className="w-4 h-4 mr-2" />
+                Download {rejected.length} Rejected Row{rejected.length !== 1 ? 's' : ''}
+              </Button>
+              <Button variant="outline" onClick={() => setStep("columns")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={selected.length === 0}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import {selected.length} Recipient{selected.length !== 1 ? 's' : ''}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ListNameDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  initialName?: string;
+  /** Rejecting keeps the dialog open and shows the error's message. */
+  onConfirm: (name: string) => Promise<void>;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ListNameDialog = ({
+  open,
+  title,
+  description,
+  confirmLabel,
+  initialName = "",
+  onConfirm,
+  onOpenChange,
+}: ListNameDialogProps) => {
+  const [name, setName] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Each opening starts from the suggested name
+  useEffect(() => {
+    if (!open) return;
+    setName(initialName);
+    setError(null);
+  }, [open, initialName]);
+
+  const handleConfirm = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await onConfirm(name);
+      onOpenChange(false);
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Could not save the list");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1.5">
+            <Label htmlFor="list-name">Name</Label>
+            <Input
+              id="list-name"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              placeholder="e.g. Q3 customers"
+              autoFocus
+            />
+            {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {confirmLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
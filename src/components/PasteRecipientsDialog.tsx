@@ -0,0 +1,133 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { ClipboardPaste, Plus } from "lucide-react";
+import {
+  createRecipient,
+  indexAddresses,
+  parsePastedAddresses,
+  type ImportRowStatus,
+  type NormalizeOptions,
+  type Recipient,
+  type SuppressionMatcher,
+} from "@/lib/recipients";
+
+const statusStyles: Record<ImportRowStatus, string> = {
+  new: "bg-green-100 text-green-700",
+  duplicate: "bg-amber-100 text-amber-700",
+  invalid: "bg-destructive/15 text-destructive line-through",
+  suppressed: "bg-muted text-muted-foreground",
+};
+
+interface PasteRecipientsDialogProps {
+  open: boolean;
+  /** Addresses already on the list, shown as duplicates. */
+  existingEmails: string[];
+  normalizeOptions?: NormalizeOptions;
+  /** Finds addresses on the suppression list, which are rejected. */
+  suppressionFor?: SuppressionMatcher;
+  onAdd: (recipients: Recipient[]) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const PasteRecipientsDialog = ({
+  open,
+  existingEmails,
+  normalizeOptions,
+  suppressionFor,
+  onAdd,
+  onOpenChange,
+}: PasteRecipientsDialogProps) => {
+  const [text, setText] = useState("");
+  const existing = useMemo(() => indexAddresses(existingEmails, normalizeOptions), [existingEmails, normalizeOptions]);
+  const parsed = useMemo(
+    () => parsePastedAddresses(text, existing, normalizeOptions, suppressionFor),
+    [text, existing, normalizeOptions, suppressionFor],
+  );
+  const accepted = parsed.filter(address => address.status === "new");
+  const rejected = parsed.length - accepted.length;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) setText("");
+    onOpenChange(isOpen);
+  };
+
+  const handleAdd = () => {
+    onAdd(accepted.map(({ email, name }) => createRecipient(email, { kind: "paste" }, { name })));
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardPaste className="w-5 h-5 text-primary" />
+            Paste Recipients
+          </DialogTitle>
+          <DialogDescription>
+            Paste addresses copied from a mail client's To or CC field, or cells copied from a spreadsheet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'Jane Doe <jane@example.com>; bob@example.org, "Smith, Al" <al@example.io>'}
+            rows={6}
+            className="font-mono text-sm resize-none"
+            autoFocus
+          />
+
+          {parsed.length > 0 && (
+            <div className="space-y-2">
+              <Label>
+                {accepted.length} accepted{rejected > 0 && `, ${rejected} rejected`}
+              </Label>
+              <div className="flex flex-wrap gap-1.5 max-h-48 overflow-y-auto">
+                {parsed.map((address, index) => (
+                  <Badge
+                    key={index}
+                    variant="outline"
+                    title={address.reason ?? address.text}
+                    className={cn("border-transparent font-normal max-w-full", statusStyles[address.status])}
+                  >
+                    <span className="truncate">
+                      {address.status === "invalid"
+                        ? address.text
+                        : address.name ? `${address.name} <${address.email}>` : address.email}
+                    </span>
+                  </Badge>
+                ))}
+              </div>
+              {rejected > 0 && (
+                <ul className="text-xs text-muted-foreground space-y-0.5 max-h-24 overflow-y-auto">
+                  {parsed.map((address, index) => address.reason && (
+                    <li key={index} className="truncate">
+                      <span className="font-mono">{address.text}</span>: {address.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdd} disabled={accepted.length === 0}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add {accepted.length} Recipient{accepted.length !== 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
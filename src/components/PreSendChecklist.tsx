@@ -0,0 +1,100 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { ListChecks } from "lucide-react";
+import type { RecipientWarning, RecipientWarningKind } from "@/lib/recipients";
+
+// Typos first: they are the most likely to be mistakes and the easiest to fix
+const sections: { kind: RecipientWarningKind; title: string }[] = [
+  { kind: "typo", title: "Possible typos" },
+  { kind: "disposable", title: "Disposable addresses" },
+  { kind: "role", title: "Role accounts" },
+];
+const SHOWN_PER_KIND = 5;
+
+interface PreSendChecklistProps {
+  /** Flagged recipients; the checklist is open while there are any, or any `missing`. */
+  flagged: { email: string; warnings: RecipientWarning[] }[];
+  /** Recipients with no value for some of the message's placeholders, which would be left blank. */
+  missing?: { email: string; fields: string[] }[];
+  onCancel: () => void;
+  /** Sends without the flagged recipients and those missing values. */
+  onSkipFlagged: () => void;
+  onSendAnyway: () => void;
+}
+
+export const PreSendChecklist = ({ flagged, missing = [], onCancel, onSkipFlagged, onSendAnyway }: PreSendChecklistProps) => {
+  const count = new Set([...flagged, ...missing].map(({ email }) => email)).size;
+
+  return (
+    <AlertDialog open={count > 0} onOpenChange={open => !open && onCancel()}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-primary" />
+            Check Recipients Before Sending
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {count} recipient{count !== 1 ? 's look' : ' looks'} worth a second look.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {sections.map(({ kind, title }) => {
+            const entries = flagged.flatMap(({ email, warnings }) =>
+              warnings.filter(warning => warning.kind === kind).map(warning => ({ email, warning })),
+            );
+            if (entries.length === 0) return null;
+            return (
+              <div key={kind} className="space-y-1">
+                <p className="text-sm font-medium">
+                  {title} ({entries.length})
+                </p>
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {entries.slice(0, SHOWN_PER_KIND).map(({ email, warning }) => (
+                    <li key={email} className="break-all">
+                      <span className="text-foreground">{email}</span>
+                      {warning.suggestion ? ` — did you mean ${warning.suggestion}?` : ` — ${warning.message}`}
+                    </li>
+                  ))}
+                  {entries.length > SHOWN_PER_KIND && <li>...and {entries.length - SHOWN_PER_KIND} more</li>}
+                </ul>
+              </div>
+            );
+          })}
+          {missing.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">
+                Missing placeholder values ({missing.length})
+              </p>
+              <ul className="text-xs text-muted-foreground space-y-0.5">
+                {missing.slice(0, SHOWN_PER_KIND).map(({ email, fields }) => (
+                  <li key={email} className="break-all">
+                    <span className="text-foreground">{email}</span> — no {fields.join(", ")}, left blank
+                  </li>
+                ))}
+                {missing.length > SHOWN_PER_KIND && <li>...and {missing.length - SHOWN_PER_KIND} more</li>}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Review List</AlertDialogCancel>
+          <Button variant="outline" onClick={onSkipFlagged}>
+            Send Without Them
+          </Button>
+          <AlertDialogAction onClick={onSendAnyway}>Send Anyway</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,612 @@
+import { useMemo, useRef, useState } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  ArrowDownAZ,
+  ArrowUpZA,
+  Ban,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Globe,
+  Pencil,
+  Plus,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { DeliveryStatusBadge } from "./DeliveryStatusBadge";
+import { RecipientWarningBadges } from "./RecipientWarningBadges";
+import { RECIPIENT_ROLES, type DeliveryState, type DeliveryStatusMap, type RecipientRole } from "@/lib/mail";
+import {
+  suppressionReason,
+  type Recipient,
+  type RecipientDetails,
+  type RecipientWarning,
+  type Suppression,
+} from "@/lib/recipients";
+
+type StatusFilter = "all" | "flagged" | "suppressed" | "pending" | "sent" | "failed";
+
+type SortKey = "added" | "email" | "name" | "domain";
+
+const statusFilters: { value: StatusFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "flagged", label: "To check" },
+  { value: "suppressed", label: "Suppressed" },
+  { value: "pending", label: "Pending" },
+  { value: "sent", label: "Sent" },
+  { value: "failed", label: "Failed" },
+];
+
+const sortLabels: Record<SortKey, string> = {
+  added: "Order added",
+  email: "Address",
+  name: "Name",
+  domain: "Domain",
+};
+
+const roleLabels: Record<RecipientRole, string> = { to: "To", cc: "CC", bcc: "BCC" };
+
+const PENDING_STATES = new Set<DeliveryState>(["scheduled", "queued", "sending", "retrying"]);
+
+// Rows are measured once rendered; these only have to be close
+const ESTIMATED_ROW_HEIGHT = 68;
+const ESTIMATED_GROUP_HEIGHT = 40;
+
+const domainOf = (email: string) => email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+
+/** A recipient and where it sits on the list, which is the number shown beside it. */
+interface ListEntry {
+  recipient: Recipient;
+  position: number;
+}
+
+type ListItem =
+  | { kind: "domain"; domain: string; emails: string[] }
+  | ({ kind: "recipient" } & ListEntry);
+
+interface RecipientRowProps {
+  entry: ListEntry;
+  selected: boolean;
+  warnings: RecipientWarning[];
+  suppression?: Suppression;
+  deliveryStatus: DeliveryStatusMap;
+  recipientRoles?: Record<string, RecipientRole>;
+  onChangeRole?: (email: string, role: RecipientRole) => void;
+  onChangeEmail?: (email: string, next: string) => void;
+  onToggle: (selected: boolean) => void;
+  /** Opens the row for editing; without it the row can't be edited. */
+  onEdit?: () => void;
+  onRemove: () => void;
+  isSending: boolean;
+}
+
+const RecipientRow = ({
+  entry: { recipient: { email, name, fields }, position },
+  selected,
+  warnings,
+  suppression,
+  deliveryStatus,
+  recipientRoles,
+  onChangeRole,
+  onChangeEmail,
+  onToggle,
+  onEdit,
+  onRemove,
+  isSending,
+}: RecipientRowProps) => {
+  const details = (
+    <>
+      {name ? (
+        <>
+          <span className="block text-sm font-medium break-all">{name}</span>
+          <span className="block text-xs text-muted-foreground break-all">{email}</span>
+        </>
+      ) : (
+        <span className="block text-sm font-medium break-all">{email}</span>
+      )}
+      {Object.keys(fields).length > 0 && (
+        <span
+          className="block text-xs text-muted-foreground truncate"
+          title={Object.entries(fields).map(([key, value]) => `${key}: ${value}`).join("\n")}
+        >
+          {Object.entries(fields).map(([key, value]) => `${key}: ${value}`).join(" · ")}
+        </span>
+      )}
+    </>
+  );
+
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-between bg-background/30 rounded-lg p-3 group hover:bg-background/50 transition-colors",
+        selected && "bg-primary/5",
+        suppression && "opacity-50",
+      )}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <Checkbox checked={selected} onCheckedChange={checked => onToggle(checked === true)} aria-label={`Select ${email}`} />
+        <div className="w-8 h-8 bg-primary/20 rounded-full flex items-center justify-center text-xs font-medium text-primary shrink-0">
+          {position + 1}
+        </div>
+        <div className="min-w-0">
+          {onEdit ? (
+            <button
+              type="button"
+              className="block w-full min-w-0 text-left rounded-sm hover:text-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              disabled={isSending}
+              onClick={onEdit}
+              title="Click to edit"
+            >
+              {details}
+            </button>
+          ) : details}
+          {suppression && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Ban className="w-3 h-3 shrink-0" />
+              {suppressionReason(suppression)}, skipped when sending
+            </p>
+          )}
+          <RecipientWarningBadges
+            warnings={warnings}
+            onApplySuggestion={onChangeEmail && (suggestion => onChangeEmail(email, suggestion))}
+            disabled={isSending}
+          />
+          {deliveryStatus[email]?.state === "failed" && deliveryStatus[email].reason && (
+            <p className="text-xs text-destructive truncate" title={deliveryStatus[email].reason}>
+              {deliveryStatus[email].reason}
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        {deliveryStatus[email] && <DeliveryStatusBadge status={deliveryStatus[email]} />}
+        {onChangeRole && (
+          <Select
+            value={recipientRoles?.[email] ?? "to"}
+            onValueChange={value => onChangeRole(email, value as RecipientRole)}
+            disabled={isSending}
+          >
+            <SelectTrigger className="h-8 w-[4.5rem] text-xs" aria-label={`Field for ${email}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECIPIENT_ROLES.map(role => (
+                <SelectItem key={role} value={role} className="text-xs">
+                  {roleLabels[role]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {onEdit && (
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={isSending}
+            onClick={onEdit}
+            aria-label={`Edit ${email}`}
+            className="h-8 w-8 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+          >
+            <Pencil className="w-4 h-4" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={isSending}
+          onClick={onRemove}
+          className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-destructive/20 hover:text-destructive"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface RecipientEditorProps {
+  recipient: Recipient;
+  /** Saves the changes, or returns why they can't be saved. */
+  onSave: (details: RecipientDetails) => string | null;
+  onCancel: () => void;
+}
+
+// Fields are edited as rows, so one can be renamed without losing its place
+const RecipientEditor = ({ recipient, onSave, onCancel }: RecipientEditorProps) => {
+  const [email, setEmail] = useState(recipient.email);
+  const [name, setName] = useState(recipient.name ?? "");
+  const [fields, setFields] = useState<[string, string][]>(() => Object.entries(recipient.fields));
+  const [error, setError] = useState<string | null>(null);
+
+  const updateField = (index: number, field: [string, string]) => {
+    setFields(prev => prev.map((old, i) => (i === index ? field : old)));
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(onSave({
+      email,
+      name,
+      fields: Object.fromEntries(
+        fields.map(([key, value]): [string, string] => [key.trim(), value]).filter(([key]) => key),
+      ),
+    }));
+  };
+
+  return (
+    <form
+      onSubmit={handleSave}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          onCancel();
+        }
+      }}
+      className="space-y-2 rounded-lg border border-primary/30 bg-background p-3"
+    >
+      <div className="flex gap-2">
+        <Input
+          value={email}
+          onChange={(e) => {
+            setEmail(e.target.value);
+            setError(null);
+          }}
+          placeholder="Email address"
+          aria-label="Email address"
+          aria-invalid={error !== null}
+          className={cn("h-8 flex-1", error && "border-destructive")}
+          autoFocus
+        />
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional)"
+          aria-label="Name"
+          className="h-8 w-36"
+        />
+      </div>
+      {fields.map(([key, value], index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            value={key}
+            onChange={(e) => updateField(index, [e.target.value, value])}
+            placeholder="Field"
+            aria-label="Field name"
+            className="h-8 w-32 text-xs"
+          />
+          <Input
+            value={value}
+            onChange={(e) => updateField(index, [key, e.target.value])}
+            placeholder="Value"
+            aria-label={`Value of ${key || "field"}`}
+            className="h-8 flex-1 text-xs"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setFields(prev => prev.filter((_, i) => i !== index))}
+            aria-label={`Remove ${key || "field"}`}
+            className="h-8 w-8 shrink-0 hover:text-destructive"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 text-xs"
+          onClick={() => setFields(prev => [...prev, ["", ""]])}
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add field
+        </Button>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" className="h-8 text-xs" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" className="h-8 text-xs">
+            <Check className="w-3 h-3 mr-1" />
+            Save
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+interface RecipientListViewProps {
+  recipients: Recipient[];
+  /** Warnings per address, see `recipientWarnings`. */
+  warnings: Map<string, RecipientWarning[]>;
+  /** The suppression covering each address, if any. */
+  suppressions: Map<string, Suppression | undefined>;
+  deliveryStatus: DeliveryStatusMap;
+  selected: Set<string>;
+  onSelectionChange: (emails: string[], selected: boolean) => void;
+  onRemove: (email: string) => void;
+  onRemoveSelected: () => void;
+  onChangeEmail?: (email: string, next: string) => void;
+  /** Saves a recipient edited in place, or returns why it can't be saved; without it the rows can't be edited. */
+  onEdit?: (email: string, details: RecipientDetails) => string | null;
+  recipientRoles?: Record<string, RecipientRole>;
+  onChangeRole?: (email: string, role: RecipientRole) => void;
+  isSending?: boolean;
+}
+
+/**
+ * The recipients, filtered, sorted and optionally grouped by domain. Only the
+ * rows in view are rendered, so lists of many thousands stay responsive.
+ */
+export const RecipientListView = ({
+  recipients,
+  warnings,
+  suppressions,
+  deliveryStatus,
+  selected,
+  onSelectionChange,
+  onRemove,
+  onRemoveSelected,
+  onChangeEmail,
+  onEdit,
+  recipientRoles,
+  onChangeRole,
+  isSending = false,
+}: RecipientListViewProps) => {
+  const [query, setQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "added", descending: false });
+  const [groupByDomain, setGroupByDomain] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  // The address of the recipient open for editing
+  const [editing, setEditing] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const visible = useMemo(() => {
+    const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    const matchesStatus = (email: string) => {
+      const state = deliveryStatus[email]?.state;
+      switch (statusFilter) {
+        case "all":
+          return true;
+        case "flagged":
+          return (warnings.get(email)?.length ?? 0) > 0;
+        case "suppressed":
+          return suppressions.get(email) !== undefined;
+        case "pending":
+          return state !== undefined && PENDING_STATES.has(state);
+        case "sent":
+        case "failed":
+          return state === statusFilter;
+      }
+    };
+    // Every term has to appear in the address, the name or one of the fields
+    const matchesQuery = ({ email, name, fields }: Recipient) => {
+      const text = [email, name ?? "", ...Object.values(fields)].join("\n").toLowerCase();
+      return terms.every(term => text.includes(term));
+    };
+    const sortValue = ({ email, name }: Recipient) =>
+      sort.key === "email" ? email : sort.key === "name" ? name || email : `${domainOf(email)}\n${email}`;
+
+    const entries = recipients
+      .map((recipient, position): ListEntry => ({ recipient, position }))
+      .filter(({ recipient }) => matchesStatus(recipient.email) && matchesQuery(recipient));
+    if (sort.key !== "added") {
+      entries.sort((a, b) => sortValue(a.recipient).localeCompare(sortValue(b.recipient), undefined, { sensitivity: "base" }));
+    }
+    return sort.descending ? entries.reverse() : entries;
+  }, [recipients, query, statusFilter, sort, deliveryStatus, warnings, suppressions]);
+
+  // Groups follow the sort order of their first recipient
+  const items = useMemo<ListItem[]>(() => {
+    if (!groupByDomain) return visible.map(entry => ({ kind: "recipient", ...entry }));
+    const groups = new Map<string, ListEntry[]>();
+    for (const entry of visible) {
+      const domain = domainOf(entry.recipient.email);
+      const group = groups.get(domain);
+      if (group) group.push(entry);
+      else groups.set(domain, [entry]);
+    }
+    return [...groups].flatMap(([domain, entries]): ListItem[] => [
+      { kind: "domain", domain, emails: entries.map(({ recipient }) => recipient.email) },
+      ...(collapsed.has(domain) ? [] : entries.map(entry => ({ kind: "recipient" as const, ...entry }))),
+    ]);
+  }, [visible, groupByDomain, collapsed]);
+
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: index => (items[index].kind === "domain" ? ESTIMATED_GROUP_HEIGHT : ESTIMATED_ROW_HEIGHT),
+    getItemKey: index => {
+      const item = items[index];
+      return item.kind === "domain" ? `@${item.domain}` : item.recipient.email;
+    },
+    overscan: 8,
+  });
+
+  const visibleEmails = visible.map(({ recipient }) => recipient.email);
+  const allVisibleSelected = visibleEmails.length > 0 && visibleEmails.every(email => selected.has(email));
+  const isFiltered = query.trim() !== "" || statusFilter !== "all";
+
+  const toggleGroup = (domain: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(domain)) next.delete(domain);
+      else next.add(domain);
+      return next;
+    });
+  };
+
+  const handleSave = (email: string, details: RecipientDetails) => {
+    const problem = onEdit(email, details);
+    if (problem === null) setEditing(null);
+    return problem;
+  };
+
+  const clearFilter = () => {
+    setQuery("");
+    setStatusFilter("all");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[10rem]">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter by address, name or domain"
+            className="h-9 pl-8 bg-background/50 border-border/50"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={value => setStatusFilter(value as StatusFilter)}>
+          <SelectTrigger className="h-9 w-32 text-sm" aria-label="Filter by status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {statusFilters.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sort.key} onValueChange={key => setSort(prev => ({ ...prev, key: key as SortKey }))}>
+          <SelectTrigger className="h-9 w-36 text-sm" aria-label="Sort by">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(sortLabels) as SortKey[]).map(key => (
+              <SelectItem key={key} value={key}>{sortLabels[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-9 w-9"
+          onClick={() => setSort(prev => ({ ...prev, descending: !prev.descending }))}
+          aria-label={sort.descending ? "Sort ascending" : "Sort descending"}
+          title={sort.descending ? "Descending" : "Ascending"}
+        >
+          {sort.descending ? <ArrowUpZA className="w-4 h-4" /> : <ArrowDownAZ className="w-4 h-4" />}
+        </Button>
+        <Button
+          variant={groupByDomain ? "secondary" : "outline"}
+          size="sm"
+          className="h-9"
+          onClick={() => setGroupByDomain(prev => !prev)}
+          aria-pressed={groupByDomain}
+        >
+          <Globe className="w-4 h-4 mr-1" />
+          By domain
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground min-h-8">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <Checkbox
+            checked={allVisibleSelected}
+            disabled={visibleEmails.length === 0}
+            onCheckedChange={checked => onSelectionChange(visibleEmails, checked === true)}
+          />
+          {isFiltered ? `Select all ${visibleEmails.length} shown` : "Select all"}
+        </label>
+        {selected.size > 0 && (
+          <div className="flex items-center gap-2">
+            <span>{selected.size} selected</span>
+            <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => onSelectionChange([...selected], false)}>
+              Clear selection
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isSending}
+              onClick={onRemoveSelected}
+              className="h-8 text-xs hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
+            >
+              <Trash2 className="w-3 h-3 mr-1" />
+              Remove {selected.size}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <div className="text-center py-6 text-sm text-muted-foreground">
+          No recipients match the filter.{" "}
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={clearFilter}>
+            Show all
+          </Button>
+        </div>
+      ) : (
+        <div ref={scrollRef} className="max-h-96 overflow-y-auto">
+          <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map(virtualItem => {
+              const item = items[virtualItem.index];
+              return (
+                <div
+                  key={virtualItem.key}
+                  data-index={virtualItem.index}
+                  ref={virtualizer.measureElement}
+                  className="absolute left-0 top-0 w-full pb-2"
+                  style={{ transform: `translateY(${virtualItem.start}px)` }}
+                >
+                  {item.kind === "domain" ? (
+                    <div className="flex items-center gap-2 px-1 py-1.5 text-sm">
+                      <Checkbox
+                        checked={item.emails.every(email => selected.has(email))}
+                        onCheckedChange={checked => onSelectionChange(item.emails, checked === true)}
+                        aria-label={`Select everyone at ${item.domain}`}
+                      />
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 font-medium hover:text-primary"
+                        onClick={() => toggleGroup(item.domain)}
+                        aria-expanded={!collapsed.has(item.domain)}
+                      >
+                        {collapsed.has(item.domain) ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                        {item.domain}
+                      </button>
+                      <span className="text-xs text-muted-foreground">{item.emails.length}</span>
+                    </div>
+                  ) : editing === item.recipient.email && onEdit && !isSending ? (
+                    <RecipientEditor
+                      recipient={item.recipient}
+                      onSave={details => handleSave(item.recipient.email, details)}
+                      onCancel={() => setEditing(null)}
+                    />
+                  ) : (
+                    <RecipientRow
+                      entry={item}
+                      selected={selected.has(item.recipient.email)}
+                      warnings={warnings.get(item.recipient.email) ?? []}
+                      suppression={suppressions.get(item.recipient.email)}
+                      deliveryStatus={deliveryStatus}
+                      recipientRoles={recipientRoles}
+                      onChangeRole={onChangeRole}
+                      onChangeEmail={onChangeEmail}
+                      onToggle={isSelected => onSelectionChange([item.recipient.email], isSelected)}
+                      onEdit={onEdit && (() => setEditing(item.recipient.email))}
+                      onRemove={() => onRemove(item.recipient.email)}
+                      isSending={isSending}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle } from "lucide-react";
+import type { RecipientWarning, RecipientWarningKind } from "@/lib/recipients";
+
+const warningLabels: Record<RecipientWarningKind, string> = {
+  role: "Role account",
+  disposable: "Disposable",
+  typo: "Possible typo",
+};
+
+interface RecipientWarningBadgesProps {
+  warnings: RecipientWarning[];
+  /** Replaces the address with a typo's suggested fix; the fix button is hidden without it. */
+  onApplySuggestion?: (suggestion: string) => void;
+  disabled?: boolean;
+}
+
+export const RecipientWarningBadges = ({ warnings, onApplySuggestion, disabled = false }: RecipientWarningBadgesProps) => {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      {warnings.map(warning => (
+        <Badge
+          key={warning.kind}
+          variant="outline"
+          title={warning.message}
+          className="border-amber-300 bg-amber-50 text-amber-700 text-[10px] px-1.5 py-0 gap-1 font-normal"
+        >
+          <AlertTriangle className="w-3 h-3" />
+          {warningLabels[warning.kind]}
+        </Badge>
+      ))}
+      {warnings.map(({ kind, suggestion }) => suggestion && onApplySuggestion && (
+        <Button
+          key={`${kind}-fix`}
+          variant="link"
+          size="sm"
+          disabled={disabled}
+          onClick={() => onApplySuggestion(suggestion)}
+          className="h-auto p-0 text-xs"
+        >
+          Use {suggestion}
+        </Button>
+      ))}
+    </div>
+  );
+};
@@ -1,65 +1,221 @@
-import { useState, useRef } from "react";
+import { useMemo, useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { format } from "date-fns";
+import { useRecipientLists } from "@/hooks/use-recipient-lists";
+import { useSuppressions } from "@/hooks/use-suppressions";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, X, Users, Mail, Upload } from "lucide-react";
-import * as XLSX from 'xlsx';
+import { downloadFile } from "@/lib/download";
+import { cn } from "@/lib/utils";
+import { Link } from "react-router-dom";
+import { Plus, Users, Mail, Upload, RotateCw, ClipboardPaste, ListPlus, Save, Download, Undo2, Redo2 } from "lucide-react";
+import { ImportWizard } from "./ImportWizard";
+import { ListNameDialog } from "./ListNameDialog";
+import { PasteRecipientsDialog } from "./PasteRecipientsDialog";
+import { RecipientListView } from "./RecipientListView";
+import { countByState, validateAddress, type DeliveryStatusMap, type RecipientRole } from "@/lib/mail";
+import {
+  canonicalEmail,
+  createList,
+  createRecipient,
+  exportRecipients,
+  indexAddresses,
+  normalizeEmail,
+  readWorkbookFile,
+  recipientWarnings,
+  suppressionReason,
+  type NormalizeOptions,
+  type Recipient,
+  type RecipientDetails,
+  type RecipientExportFormat,
+  type RecipientList,
+  type SpreadsheetImport,
+  type WorkbookReadProgress,
+  type WorkbookReadStage,
+  type WorkbookSheet,
+} from "@/lib/recipients";
+
+const exactDuplicatesOnly: NormalizeOptions = {};
+
+const readStageLabels: Record<WorkbookReadStage, string> = {
+  reading: "Reading file",
+  parsing: "Parsing workbook",
+  converting: "Reading rows",
+};
+
+// What a change to the list may return, so the Undo on its toast reverts that change and no other
+type ChangeId = number | void;
 
 interface RecipientsManagerProps {
-  recipients: string[];
-  onAddRecipient: (email: string) => void;
-  onRemoveRecipient: (email: string) => void;
-  onClearAll?: () => void;
+  recipients: Recipient[];
+  onAddRecipients: (recipients: Recipient[]) => ChangeId;
+  onRemoveRecipients: (emails: string[]) => ChangeId;
+  /** Replaces an address, e.g. with the fix for a typo; without it the fix isn't offered. */
+  onChangeEmail?: (email: string, next: string) => void;
+  /** Saves a recipient edited in place; without it the rows can't be edited. */
+  onEditRecipient?: (email: string, details: RecipientDetails) => ChangeId;
+  onClearAll?: () => ChangeId;
+  /**
+   * Undo and redo recipient edits: the last one, or with `change` only that one while nothing
+   * has been done since. Without them the toasts and buttons for it aren't shown.
+   */
+  onUndo?: (change?: number) => void;
+  onRedo?: () => void;
+  /** What undo and redo would do, e.g. "Removed 3 recipients"; null when there's nothing to undo or redo. */
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  deliveryStatus?: DeliveryStatusMap;
+  onRetryFailed?: () => void;
+  isSending?: boolean;
+  /** Each recipient's header; when `onChangeRole` is given too, every row gets a To/CC/BCC picker. */
+  recipientRoles?: Record<string, RecipientRole>;
+  onChangeRole?: (email: string, role: RecipientRole) => void;
+  /** How addresses are compared when looking for duplicates. */
+  normalizeOptions?: NormalizeOptions;
+  onNormalizeOptionsChange?: (options: NormalizeOptions) => void;
 }
 
-export const RecipientsManager = ({ recipients, onAddRecipient, onRemoveRecipient, onClearAll }: RecipientsManagerProps) => {
+export const RecipientsManager = ({
+  recipients,
+  onAddRecipients,
+  onRemoveRecipients,
+  onChangeEmail,
+  onEditRecipient,
+  onClearAll,
+  onUndo,
+  onRedo,
+  undoLabel = null,
+  redoLabel = null,
+  deliveryStatus = {},
+  onRetryFailed,
+  isSending = false,
+  recipientRoles,
+  onChangeRole,
+  normalizeOptions = exactDuplicatesOnly,
+  onNormalizeOptionsChange,
+}: RecipientsManagerProps) => {
   const [newRecipient, setNewRecipient] = useState("");
+  const [newRecipientName, setNewRecipientName] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // A file read and waiting for its columns to be mapped in the import wizard
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; sheets: WorkbookSheet[] } | null>(null);
+  const [isPasting, setIsPasting] = useState(false);
+  const [isSavingList, setIsSavingList] = useState(false);
+  const [selection, setSelection] = useState<Set<string>>(new Set());
+  const { lists } = useRecipientLists();
+  const { suppressionFor } = useSuppressions();
+  // A file being read in the spreadsheet worker
+  const [reading, setReading] = useState<{
+    fileName: string;
+    progress: WorkbookReadProgress;
+    controller: AbortController;
+  } | null>(null);
   const { toast } = useToast();
+  const emails = useMemo(() => recipients.map(recipient => recipient.email), [recipients]);
+  const warnings = useMemo(
+    () => new Map(emails.map(email => [email, recipientWarnings(email)])),
+    [emails],
+  );
+  const flaggedCount = [...warnings.values()].filter(list => list.length > 0).length;
+  const suppressions = useMemo(
+    () => new Map(emails.map(email => [email, suppressionFor(email)])),
+    [emails, suppressionFor],
+  );
+  const suppressedCount = [...suppressions.values()].filter(Boolean).length;
+  const addressIndex = useMemo(() => indexAddresses(emails, normalizeOptions), [emails, normalizeOptions]);
+  // Recipients removed elsewhere drop out of the selection
+  const selected = useMemo(() => new Set(emails.filter(email => selection.has(email))), [emails, selection]);
+  // Saving and exporting act on the selection, or everyone when nothing is selected
+  const chosenRecipients = selected.size > 0 ? recipients.filter(recipient => selected.has(recipient.email)) : recipients;
+  const statusCounts = countByState(deliveryStatus, emails);
+  const hasDeliveryStatus = emails.some(email => deliveryStatus[email]);
+  // Offered on the toast of every change to the list
+  const undoAction = (change: ChangeId) =>
+    onUndo && typeof change === "number" ? (
+      <ToastAction altText="Undo" onClick={() => onUndo(change)}>
+        Undo
+      </ToastAction>
+    ) : undefined;
 
-  const validateEmail = (email: string) => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  };
+  // Why an address can't go on the list, or null if it can. `current` is the address being
+  // edited, which the new one may match.
+  const addressProblem = (email: string, current?: string): { title: string; description: string } | null => {
+    if (!email) {
+      return { title: "Invalid Email", description: "Please enter an email address." };
+    }
 
-  const handleAddRecipient = () => {
-    if (!newRecipient.trim()) {
-      toast({
-        title: "Invalid Email",
-        description: "Please enter an email address.",
-        variant: "destructive",
-      });
-      return;
+    const validation = validateAddress(email);
+    if (!validation.valid) {
+      return { title: "Invalid Email Format", description: `${validation.reason}.` };
     }
 
-    if (!validateEmail(newRecipient)) {
-      toast({
-        title: "Invalid Email Format",
-        description: "Please enter a valid email address.",
-        variant: "destructive",
-      });
-      return;
+    const suppression = suppressionFor(email);
+    if (suppression) {
+      return {
+        title: "Address Suppressed",
+        description: `${email} is on the suppression list (${suppressionReason(suppression)}). Remove it there to send to it again.`,
+      };
     }
 
-    if (recipients.includes(newRecipient)) {
-      toast({
+    const listed = addressIndex.get(canonicalEmail(email, normalizeOptions));
+    if (listed !== undefined && listed !== current) {
+      return {
         title: "Duplicate Email",
-        description: "This email is already in the recipients list.",
-        variant: "destructive",
-      });
+        description: listed === email
+          ? "This email is already in the recipients list."
+          : `${email} is the same address as ${listed}, which is already in the recipients list.`,
+      };
+    }
+    return null;
+  };
+
+  const handleAddRecipient = () => {
+    const email = normalizeEmail(newRecipient);
+    const problem = addressProblem(email);
+    if (problem) {
+      toast({ ...problem, variant: "destructive" });
       return;
     }
 
-    onAddRecipient(newRecipient);
+    const change = onAddRecipients([createRecipient(email, { kind: "manual" }, { name: newRecipientName })]);
     setNewRecipient("");
+    setNewRecipientName("");
     toast({
       title: "Recipient Added",
-      description: `${newRecipient} has been added to the recipients list.`,
+      description: `${email} has been added to the recipients list.`,
+      action: undoAction(change),
     });
   };
 
+  // Returns why the changes can't be saved, shown in the row, or null once they are
+  const handleEditRecipient = (email: string, details: RecipientDetails) => {
+    const next = normalizeEmail(details.email);
+    // An address that is kept, e.g. a suppressed one, is only checked when it was first added
+    const problem = next === email ? null : addressProblem(next, email);
+    if (problem) return problem.description;
+
+    const change = onEditRecipient(email, { email: next, name: details.name?.trim() || undefined, fields: details.fields });
+    toast({
+      title: "Recipient Updated",
+      description: next === email ? `${email} has been updated.` : `${email} has been changed to ${next}.`,
+      action: undoAction(change),
+    });
+    return null;
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       e.preventDefault();
@@ -68,143 +224,176 @@ export const RecipientsManager = ({ recipients, onAddRecipient, onRemoveRecipien
   };
 
   const handleRemoveRecipient = (email: string) => {
-    onRemoveRecipient(email);
+    const change = onRemoveRecipients([email]);
     toast({
       title: "Recipient Removed",
       description: `${email} has been removed from the recipients list.`,
+      action: undoAction(change),
     });
   };
 
-  const handleExcelImport = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const handleSelectionChange = (changed: string[], isSelected: boolean) => {
+    setSelection(prev => {
+      const next = new Set(prev);
+      changed.forEach(email => isSelected ? next.add(email) : next.delete(email));
+      return next;
+    });
+  };
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        const emails: string[] = [];
-        const duplicates: string[] = [];
-        const invalid: string[] = [];
+  const handleRemoveSelected = () => {
+    const removed = [...selected];
+    const change = onRemoveRecipients(removed);
+    setSelection(new Set());
+    toast({
+      title: "Recipients Removed",
+      description: `${removed.length} recipient${removed.length !== 1 ? 's have' : ' has'} been removed from the recipients list.`,
+      action: undoAction(change),
+    });
+  };
 
-        // Process all sheets in the workbook
-        workbook.SheetNames.forEach(sheetName => {
-          const worksheet = workbook.Sheets[sheetName];
-          
-          // Try different parsing methods
-          // Method 1: Parse as JSON with headers
-          try {
-            const jsonDataWithHeaders = XLSX.utils.sheet_to_json(worksheet);
-            jsonDataWithHeaders.forEach((row: any) => {
-              Object.values(row).forEach((cell: any) => {
-                if (cell && typeof cell === 'string') {
-                  const potentialEmails = cell.match(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g);
-                  if (potentialEmails) {
-                    potentialEmails.forEach(emailMatch => {
-                      const email = emailMatch.trim().toLowerCase();
-                      if (validateEmail(email)) {
-                        if (recipients.includes(email)) {
-                          if (!duplicates.includes(email)) duplicates.push(email);
-                        } else if (!emails.includes(email)) {
-                          emails.push(email);
-                        }
-                      } else {
-                        if (!invalid.includes(emailMatch)) invalid.push(emailMatch);
-                      }
-                    });
-                  }
-                }
-              });
-            });
-          } catch (headerError) {
-            console.warn('Failed to parse with headers, trying raw data');
-          }
+  const handleExcelImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset file input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (!file) return;
 
-          // Method 2: Parse as raw array data
-          try {
-            const jsonDataRaw = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-            jsonDataRaw.forEach((row: any) => {
-              if (Array.isArray(row)) {
-                row.forEach((cell: any) => {
-                  if (cell && typeof cell === 'string') {
-                    const potentialEmails = cell.match(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g);
-                    if (potentialEmails) {
-                      potentialEmails.forEach(emailMatch => {
-                        const email = emailMatch.trim().toLowerCase();
-                        if (validateEmail(email)) {
-                          if (recipients.includes(email)) {
-                            if (!duplicates.includes(email)) duplicates.push(email);
-                          } else if (!emails.includes(email)) {
-                            emails.push(email);
-                          }
-                        } else {
-                          if (!invalid.includes(emailMatch)) invalid.push(emailMatch);
-                        }
-                      });
-                    }
-                  }
-                });
-              }
-            });
-          } catch (rawError) {
-            console.warn('Failed to parse raw data');
-          }
+    const controller = new AbortController();
+    setReading({ fileName: file.name, progress: { stage: "reading" }, controller });
+    try {
+      const sheets = await readWorkbookFile(file, {
+        signal: controller.signal,
+        onProgress: progress => setReading(prev => prev && { ...prev, progress }),
+      });
+      if (sheets.every(sheet => sheet.grid.length === 0)) {
+        toast({
+          title: "No Emails Found",
+          description: "The file is empty. Please check the file format and content.",
+          variant: "destructive",
         });
+        return;
+      }
+      setPendingImport({ fileName: file.name, sheets });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Import error:', error);
+      toast({
+        title: "Import Failed",
+        description: "Unable to read the file. Please check the file format.",
+        variant: "destructive",
+      });
+    } finally {
+      setReading(prev => prev?.controller === controller ? null : prev);
+    }
+  };
 
-        // Add valid emails
-        emails.forEach(email => onAddRecipient(email));
+  const handleLoadList = (list: RecipientList) => {
+    const added = list.recipients.filter(recipient => !addressIndex.has(canonicalEmail(recipient.email, normalizeOptions)));
+    const change = onAddRecipients(list.recipients);
+    const skipped = list.recipients.length - added.length;
+    const suppressed = added.filter(recipient => suppressionFor(recipient.email)).length;
+    toast({
+      title: "List Added",
+      description: `${added.length} recipient${added.length !== 1 ? 's' : ''} added from "${list.name}"` +
+        (skipped > 0 ? `, ${skipped} already listed.` : ".") +
+        (suppressed > 0 ? ` ${suppressed} ${suppressed !== 1 ? 'are' : 'is'} on the suppression list and will be skipped.` : ""),
+      action: undoAction(change),
+    });
+  };
+
+  const handleExport = (fileFormat: RecipientExportFormat) => {
+    const { content, type } = exportRecipients(chosenRecipients, fileFormat, {
+      deliveryStatus,
+      recipientRoles,
+      suppressionFor,
+    });
+    downloadFile(content, `recipients-${format(new Date(), "yyyy-MM-dd")}.${fileFormat}`, type);
+    toast({
+      title: "Recipients Exported",
+      description: `${chosenRecipients.length} recipient${chosenRecipients.length !== 1 ? 's' : ''} saved as ${fileFormat.toUpperCase()}.`,
+    });
+  };
 
-        // Show results
-        const messages = [];
-        if (emails.length > 0) {
-          messages.push(`${emails.length} email${emails.length !== 1 ? 's' : ''} imported successfully`);
-        }
-        if (duplicates.length > 0) {
-          messages.push(`${duplicates.length} duplicate${duplicates.length !== 1 ? 's' : ''} skipped`);
-        }
-        if (invalid.length > 0) {
-          messages.push(`${invalid.length} invalid email${invalid.length !== 1 ? 's' : ''} skipped`);
-        }
+  const handleSaveList = async (name: string) => {
+    const list = await createList(name, chosenRecipients);
+    toast({
+      title: "List Saved",
+      description: `"${list.name}" holds ${list.recipients.length} recipient${list.recipients.length !== 1 ? 's' : ''}.`,
+    });
+  };
 
-        if (emails.length === 0 && duplicates.length === 0) {
-          toast({
-            title: "No Emails Found",
-            description: "No valid email addresses were found in the file. Please check the file format and content.",
-            variant: "destructive",
-          });
-        } else {
-          toast({
-            title: "Excel Import Complete",
-            description: messages.join(', '),
-          });
-        }
+  const handlePaste = (pasted: Recipient[]) => {
+    const change = onAddRecipients(pasted);
+    toast({
+      title: "Recipients Added",
+      description: `${pasted.length} recipient${pasted.length !== 1 ? 's' : ''} added from the pasted list.`,
+      action: undoAction(change),
+    });
+  };
 
-      } catch (error) {
-        console.error('Excel import error:', error);
-        toast({
-          title: "Import Failed",
-          description: "Unable to read the Excel file. Please check the file format.",
-          variant: "destructive",
-        });
-      }
-    };
+  const handleImport = ({ recipients: imported, skipped }: SpreadsheetImport) => {
+    const change = onAddRecipients(imported);
+    setPendingImport(null);
 
-    reader.readAsArrayBuffer(file);
-    // Reset file input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+    // Show results
+    const named = imported.filter(recipient => recipient.name).length;
+    const messages = [
+      `${imported.length} email${imported.length !== 1 ? 's' : ''} imported successfully` +
+        (named > 0 ? ` (${named} with names)` : ''),
+    ];
+    if (skipped.duplicate > 0) {
+      messages.push(`${skipped.duplicate} duplicate${skipped.duplicate !== 1 ? 's' : ''} skipped`);
     }
+    if (skipped.invalid > 0) {
+      messages.push(`${skipped.invalid} invalid email${skipped.invalid !== 1 ? 's' : ''} skipped`);
+    }
+    if (skipped.suppressed > 0) {
+      messages.push(`${skipped.suppressed} suppressed address${skipped.suppressed !== 1 ? 'es' : ''} skipped`);
+    }
+    if (skipped.deselected > 0) {
+      messages.push(`${skipped.deselected} row${skipped.deselected !== 1 ? 's' : ''} left out`);
+    }
+    toast({
+      title: "Import Complete",
+      description: messages.join(', '),
+      action: undoAction(change),
+    });
   };
 
   return (
     <Card className="bg-card shadow-lg">
       <CardHeader className="space-y-1">
-        <CardTitle className="text-2xl flex items-center gap-2">
-          <Users className="w-6 h-6 text-primary" />
-          Recipients ({recipients.length})
-        </CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-2xl flex items-center gap-2">
+            <Users className="w-6 h-6 text-primary" />
+            Recipients ({recipients.length})
+          </CardTitle>
+          {onUndo && onRedo && (
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={!undoLabel || isSending}
+                onClick={() => onUndo()}
+                title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+              >
+                <Undo2 className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={!redoLabel || isSending}
+                onClick={() => onRedo()}
+                title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+              >
+                <Redo2 className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
         <CardDescription>
           Add email addresses to send your message to multiple recipients
         </CardDescription>
@@ -221,6 +410,13 @@ export const RecipientsManager = ({ recipients, onAddRecipient, onRemoveRecipien
               onKeyPress={handleKeyPress}
               className="bg-background/50 border-border/50 flex-1"
             />
+            <Input
+              placeholder="Name (optional)"
+              value={newRecipientName}
+              onChange={(e) => setNewRecipientName(e.target.value)}
+              onKeyPress={handleKeyPress}
+              className="bg-background/50 border-border/50 w-36"
+            />
             <Button
               onClick={handleAddRecipient}
               size="icon"
@@ -230,7 +426,7 @@ export const RecipientsManager = ({ recipients, onAddRecipient, onRemoveRecipien
             </Button>
           </div>
           
-          {/* Excel Import */}
+          {/* File Import */}
           <div className="flex items-center gap-2">
             <div className="h-px bg-border flex-1"></div>
             <span className="text-xs text-muted-foreground px-2">OR</span>
@@ -241,23 +437,105 @@ export const RecipientsManager = ({ recipients, onAddRecipient, onRemoveRecipien
             <input
               ref={fileInputRef}
               type="file"
-              accept=".xlsx,.xls,.csv"
+              accept=".xlsx,.xls,.csv,.vcf,.vcard,.ldif,.ldi"
               onChange={handleExcelImport}
               className="hidden"
             />
             <Button
               onClick={() => fileInputRef.current?.click()}
               variant="outline"
+              disabled={reading !== null}
               className="flex-1 bg-background/50 border-border/50 hover:bg-background/80"
             >
               <Upload className="w-4 h-4 mr-2" />
-              Import from Excel
+              Import from File
+            </Button>
+            <Button
+              onClick={() => setIsPasting(true)}
+              variant="outline"
+              className="flex-1 bg-background/50 border-border/50 hover:bg-background/80"
+            >
+              <ClipboardPaste className="w-4 h-4 mr-2" />
+              Paste List
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="flex-1 bg-background/50 border-border/50 hover:bg-background/80">
+                  <ListPlus className="w-4 h-4 mr-2" />
+                  Saved Lists
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Add a saved list</DropdownMenuLabel>
+                {lists.length === 0 ? (
+                  <DropdownMenuItem disabled>No saved lists yet</DropdownMenuItem>
+                ) : lists.map(list => (
+                  <DropdownMenuItem key={list.id} onSelect={() => handleLoadList(list)}>
+                    <span className="truncate flex-1">{list.name}</span>
+                    <span className="text-xs text-muted-foreground ml-2">{list.recipients.length}</span>
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link to="/lists">Manage lists</Link>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
+
+          {reading && (
+            <div className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">
+                  {readStageLabels[reading.progress.stage]} · {reading.fileName}
+                </span>
+                <Button variant="ghost" size="sm" className="h-7 text-xs shrink-0" onClick={() => reading.controller.abort()}>
+                  Cancel
+                </Button>
+              </div>
+              <Progress
+                value={(reading.progress.fraction ?? 1) * 100}
+                className={cn("h-2", reading.progress.fraction === undefined && "animate-pulse")}
+              />
+            </div>
+          )}
           
           <p className="text-xs text-muted-foreground">
-            Upload an Excel file (.xlsx, .xls) or CSV with email addresses
+            Upload an Excel file (.xlsx, .xls), CSV, vCard (.vcf) or LDIF address book, or paste a list of addresses
           </p>
+          {onNormalizeOptionsChange && (
+            <label className="flex items-center justify-between gap-3 text-sm cursor-pointer">
+              <span>
+                Treat Gmail dots and +tags as the same address
+                <span className="block text-xs text-muted-foreground">
+                  Also folds +tags for Outlook, iCloud, Fastmail and Proton when looking for duplicates
+                </span>
+              </span>
+              <Switch
+                checked={normalizeOptions.foldProviderAliases ?? false}
+                onCheckedChange={checked => onNormalizeOptionsChange({ ...normalizeOptions, foldProviderAliases: checked })}
+              />
+            </label>
+          )}
+          <PasteRecipientsDialog
+            open={isPasting}
+            existingEmails={emails}
+            normalizeOptions={normalizeOptions}
+            suppressionFor={suppressionFor}
+            onAdd={handlePaste}
+            onOpenChange={setIsPasting}
+          />
+          {pendingImport && (
+            <ImportWizard
+              fileName={pendingImport.fileName}
+              sheets={pendingImport.sheets}
+              existingEmails={emails}
+              normalizeOptions={normalizeOptions}
+              suppressionFor={suppressionFor}
+              onImport={handleImport}
+              onClose={() => setPendingImport(null)}
+            />
+          )}
         </div>
 
         {/* Recipients List */}
@@ -266,10 +544,43 @@ export const RecipientsManager = ({ recipients, onAddRecipient, onRemoveRecipien
             <h3 className="text-sm font-medium text-muted-foreground">
               Email Recipients
             </h3>
-            {recipients.length > 0 && (
-              <Badge variant="secondary" className="text-xs">
-                {recipients.length} recipient{recipients.length !== 1 ? 's' : ''}
-              </Badge>
+            {hasDeliveryStatus ? (
+              <div className="flex items-center gap-1">
+                <Badge variant="secondary" className="text-xs">
+                  {statusCounts.sent} sent
+                </Badge>
+                {statusCounts.failed > 0 && (
+                  <Badge variant="destructive" className="text-xs">
+                    {statusCounts.failed} failed
+                  </Badge>
+                )}
+                {statusCounts.scheduled > 0 && (
+                  <Badge variant="outline" className="text-xs">
+                    {statusCounts.scheduled} scheduled
+                  </Badge>
+                )}
+                {statusCounts.queued + statusCounts.sending + statusCounts.retrying > 0 && (
+                  <Badge variant="outline" className="text-xs">
+                    {statusCounts.queued + statusCounts.sending + statusCounts.retrying} pending
+                  </Badge>
+                )}
+              </div>
+            ) : recipients.length > 0 && (
+              <div className="flex items-center gap-1">
+                <Badge variant="secondary" className="text-xs">
+                  {recipients.length} recipient{recipients.length !== 1 ? 's' : ''}
+                </Badge>
+                {flaggedCount > 0 && (
+                  <Badge variant="outline" className="text-xs border-amber-300 bg-amber-50 text-amber-700">
+                    {flaggedCount} to check
+                  </Badge>
+                )}
+                {suppressedCount > 0 && (
+                  <Badge variant="outline" className="text-xs text-muted-foreground">
+                    {suppressedCount} suppressed
+                  </Badge>
+                )}
+              </div>
             )}
           </div>
 
@@ -280,29 +591,21 @@ export const RecipientsManager = ({ recipients, onAddRecipient, onRemoveRecipien
               <p className="text-xs mt-1">Add email addresses above to get started</p>
             </div>
           ) : (
-            <div className="space-y-2 max-h-64 overflow-y-auto">
-              {recipients.map((email, index) => (
-                <div
-                  key={email}
-                  className="flex items-center justify-between bg-background/30 rounded-lg p-3 group hover:bg-background/50 transition-colors"
-                >
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-primary/20 rounded-full flex items-center justify-center text-xs font-medium text-primary">
-                      {index + 1}
-                    </div>
-                    <span className="text-sm font-medium">{email}</span>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => handleRemoveRecipient(email)}
-                    className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity hover:bg-destructive/20 hover:text-destructive"
-                  >
-                    <X className="w-4 h-4" />
-                  </Button>
-                </div>
-              ))}
-            </div>
+            <RecipientListView
+              recipients={recipients}
+              warnings={warnings}
+              suppressions={suppressions}
+              deliveryStatus={deliveryStatus}
+              selected={selected}
+              onSelectionChange={handleSelectionChange}
+              onRemove={handleRemoveRecipient}
+              onRemoveSelected={handleRemoveSelected}
+              onChangeEmail={onChangeEmail}
+              onEdit={onEditRecipient && handleEditRecipient}
+              recipientRoles={recipientRoles}
+              onChangeRole={onChangeRole}
+              isSending={isSending}
+            />
           )}
         </div>
 
@@ -311,29 +614,68 @@ export const RecipientsManager = ({ recipients, onAddRecipient, onRemoveRecipien
           <div className="pt-4 border-t border-border/50">
             <div className="flex items-center justify-between text-sm">
               <span className="text-muted-foreground">Quick Actions:</span>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => {
-                  if (onClearAll) {
-                    onClearAll();
-                  } else {
-                    // Fallback: create a copy of recipients to avoid iteration issues
-                    const recipientsCopy = [...recipients];
-                    recipientsCopy.forEach(email => onRemoveRecipient(email));
-                  }
-                  toast({
-                    title: "All Recipients Cleared",
-                    description: "All recipients have been removed from the list.",
-                  });
-                }}
-                className="text-xs hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
-              >
-                Clear All
-              </Button>
+              <div className="flex items-center gap-2">
+                {onRetryFailed && statusCounts.failed > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isSending}
+                    onClick={onRetryFailed}
+                    className="text-xs"
+                  >
+                    <RotateCw className="w-3 h-3 mr-1" />
+                    Retry Failed ({statusCounts.failed})
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsSavingList(true)}
+                  className="text-xs"
+                >
+                  <Save className="w-3 h-3 mr-1" />
+                  {selected.size > 0 ? `Save ${selected.size} as List` : "Save as List"}
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="text-xs">
+                      <Download className="w-3 h-3 mr-1" />
+                      {selected.size > 0 ? `Export ${selected.size}` : "Export"}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => handleExport("csv")}>CSV (.csv)</DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => handleExport("xlsx")}>Excel workbook (.xlsx)</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isSending}
+                  onClick={() => {
+                    const change = onClearAll ? onClearAll() : onRemoveRecipients(emails);
+                    toast({
+                      title: "All Recipients Cleared",
+                      description: "All recipients have been removed from the list.",
+                      action: undoAction(change),
+                    });
+                  }}
+                  className="text-xs hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
+                >
+                  Clear All
+                </Button>
+              </div>
             </div>
           </div>
         )}
+        <ListNameDialog
+          open={isSavingList}
+          title="Save as List"
+          description={`Saves the ${chosenRecipients.length}${selected.size > 0 ? " selected" : ""} recipient${chosenRecipients.length !== 1 ? 's' : ''}, with their names and fields, for use in later messages.`}
+          confirmLabel="Save List"
+          onConfirm={handleSaveList}
+          onOpenChange={setIsSavingList}
+        />
       </CardContent>
     </Card>
   );
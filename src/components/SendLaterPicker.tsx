@@ -0,0 +1,109 @@
+import { useMemo, useState } from "react";
+import { addHours, startOfHour, startOfToday } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock } from "lucide-react";
+import type { SendSchedule } from "@/lib/outbox";
+import {
+  formatInTimeZone,
+  instantToZonedTime,
+  listTimeZones,
+  localTimeZone,
+  zonedTimeToInstant,
+} from "@/lib/time-zone";
+
+interface SendLaterPickerProps {
+  /** The element that opens the picker, usually a button. */
+  children: React.ReactNode;
+  /** The schedule to start from; defaults to the next full hour in the local time zone. */
+  initial?: SendSchedule;
+  confirmLabel?: string;
+  onConfirm: (schedule: SendSchedule) => void;
+}
+
+export const SendLaterPicker = ({ children, initial, confirmLabel = "Schedule", onConfirm }: SendLaterPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState<Date | undefined>();
+  const [time, setTime] = useState("09:00");
+  const [timeZone, setTimeZone] = useState(localTimeZone);
+  const timeZones = useMemo(listTimeZones, []);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      const start = initial ?? { at: addHours(startOfHour(Date.now()), 1).getTime(), timeZone: localTimeZone() };
+      const zoned = instantToZonedTime(start.at, start.timeZone);
+      setDate(zoned.date);
+      setTime(zoned.time);
+      setTimeZone(start.timeZone);
+    }
+    setOpen(isOpen);
+  };
+
+  const at = date && time ? zonedTimeToInstant(date, time, timeZone) : null;
+  const isInFuture = at !== null && at > Date.now();
+
+  const handleConfirm = () => {
+    if (at === null || !isInFuture) return;
+    onConfirm({ at, timeZone });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="single"
+          selected={date}
+          onSelect={setDate}
+          disabled={{ before: startOfToday() }}
+          initialFocus
+        />
+        <div className="border-t p-3 space-y-3">
+          <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2">
+            <Label htmlFor="send-later-time">Time</Label>
+            <Input
+              id="send-later-time"
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className="h-9"
+            />
+            <Label>Time zone</Label>
+            <Select value={timeZone} onValueChange={setTimeZone}>
+              <SelectTrigger className="h-9 w-[12rem]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZones.map(zone => (
+                  <SelectItem key={zone} value={zone}>
+                    {zone.replace(/_/g, " ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {at !== null && (
+            <p className={isInFuture ? "text-xs text-muted-foreground" : "text-xs text-destructive"}>
+              {!isInFuture
+                ? "Pick a time in the future."
+                : timeZone === localTimeZone()
+                  ? `Sends ${formatInTimeZone(at, timeZone)}`
+                  : `Sends ${formatInTimeZone(at, localTimeZone())} your time`}
+            </p>
+          )}
+
+          <Button type="button" size="sm" className="w-full" disabled={!isInFuture} onClick={handleConfirm}>
+            <CalendarClock className="w-4 h-4 mr-2" />
+            {confirmLabel}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,48 @@
+import * as React from "react"
+
+import {
+  getAllJobs,
+  getAllMessages,
+  subscribeToOutbox,
+  type OutboxJob,
+  type OutboxMessage,
+} from "@/lib/outbox"
+
+interface OutboxState {
+  messages: OutboxMessage[]
+  jobs: OutboxJob[]
+  isLoading: boolean
+}
+
+/** Live view of the persisted outbox, refreshed whenever it changes. */
+export function useOutbox() {
+  const [state, setState] = React.useState<OutboxState>({ messages: [], jobs: [], isLoading: true })
+
+  React.useEffect(() => {
+    let latest = 0
+    let active = true
+
+    const load = async () => {
+      const request = ++latest
+      try {
+        const [messages, jobs] = await Promise.all([getAllMessages(), getAllJobs()])
+        // Ignore loads that were overtaken by a newer one
+        if (active && request === latest) {
+          setState({ messages, jobs, isLoading: false })
+        }
+      } catch (error) {
+        console.error("Failed to load outbox:", error)
+        if (active) setState(prev => ({ ...prev, isLoading: false }))
+      }
+    }
+
+    load()
+    const unsubscribe = subscribeToOutbox(load)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  return state
+}
@@ -0,0 +1,41 @@
+import * as React from "react"
+
+import { getAllLists, subscribeToLists, type RecipientList } from "@/lib/recipients"
+
+interface RecipientListsState {
+  lists: RecipientList[]
+  isLoading: boolean
+}
+
+/** Live view of the saved recipient lists, sorted by name. */
+export function useRecipientLists() {
+  const [state, setState] = React.useState<RecipientListsState>({ lists: [], isLoading: true })
+
+  React.useEffect(() => {
+    let latest = 0
+    let active = true
+
+    const load = async () => {
+      const request = ++latest
+      try {
+        const lists = await getAllLists()
+        // Ignore loads that were overtaken by a newer one
+        if (active && request === latest) {
+          setState({ lists: lists.sort((a, b) => a.name.localeCompare(b.name)), isLoading: false })
+        }
+      } catch (error) {
+        console.error("Failed to load recipient lists:", error)
+        if (active) setState(prev => ({ ...prev, isLoading: false }))
+      }
+    }
+
+    load()
+    const unsubscribe = subscribeToLists(load)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  return state
+}
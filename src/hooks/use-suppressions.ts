@@ -0,0 +1,51 @@
+import * as React from "react"
+
+import {
+  createSuppressionMatcher,
+  getAllSuppressions,
+  subscribeToSuppressions,
+  type Suppression,
+} from "@/lib/recipients"
+
+interface SuppressionsState {
+  suppressions: Suppression[]
+  isLoading: boolean
+}
+
+/**
+ * Live view of the suppression list, newest first, and a matcher that finds
+ * the entry covering an address.
+ */
+export function useSuppressions() {
+  const [state, setState] = React.useState<SuppressionsState>({ suppressions: [], isLoading: true })
+
+  React.useEffect(() => {
+    let latest = 0
+    let active = true
+
+    const load = async () => {
+      const request = ++latest
+      try {
+        const suppressions = await getAllSuppressions()
+        // Ignore loads that were overtaken by a newer one
+        if (active && request === latest) {
+          setState({ suppressions: suppressions.sort((a, b) => b.createdAt - a.createdAt), isLoading: false })
+        }
+      } catch (error) {
+        console.error("Failed to load the suppression list:", error)
+        if (active) setState(prev => ({ ...prev, isLoading: false }))
+      }
+    }
+
+    load()
+    const unsubscribe = subscribeToSuppressions(load)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  const suppressionFor = React.useMemo(() => createSuppressionMatcher(state.suppressions), [state.suppressions])
+
+  return { ...state, suppressionFor }
+}
@@ -0,0 +1,100 @@
+import * as React from "react"
+
+// Oldest changes are forgotten past this many
+const HISTORY_LIMIT = 100
+
+/** One change, as `commit` recorded it. */
+export interface HistoryStep {
+  /** Stays the same as the change is undone and redone. */
+  id: number
+  /** What the change did, e.g. "Removed 3 recipients". */
+  label: string
+}
+
+interface HistoryEntry<T> extends HistoryStep {
+  state: T
+}
+
+interface History<T> {
+  past: HistoryEntry<T>[]
+  present: T
+  /** Undone changes, the next one to redo last. */
+  future: HistoryEntry<T>[]
+}
+
+const lastLabel = <T>(entries: HistoryEntry<T>[]) => entries[entries.length - 1]?.label ?? null
+
+// The entry to undo or redo next, if it is the one asked for; any entry when `id` is left out
+const nextEntry = <T>(entries: HistoryEntry<T>[], id?: number) => {
+  const entry = entries[entries.length - 1]
+  return entry && (id === undefined || entry.id === id) ? entry : undefined
+}
+
+const stepOf = <T>(entry: HistoryEntry<T> | undefined): HistoryStep | null =>
+  entry ? { id: entry.id, label: entry.label } : null
+
+/**
+ * State whose changes can be undone and redone. Every `commit` is one step,
+ * labelled so the UI can say what undo and redo will do.
+ */
+export function useUndoHistory<T>(initial: T) {
+  const [history, setHistory] = React.useState<History<T>>({ past: [], present: initial, future: [] })
+  // Lets undo and redo, which may be called from stale closures such as toast actions, report the right label
+  const historyRef = React.useRef(history)
+  historyRef.current = history
+  const lastId = React.useRef(0)
+
+  /** Records a change. Returns its id, which `undo` takes to revert only that change. */
+  const commit = React.useCallback((label: string, update: (state: T) => T) => {
+    const id = ++lastId.current
+    setHistory(prev => {
+      const next = update(prev.present)
+      if (next === prev.present) return prev
+      return {
+        past: [...prev.past, { id, label, state: prev.present }].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+      }
+    })
+    return id
+  }, [])
+
+  const undoLabel = lastLabel(history.past)
+  const redoLabel = lastLabel(history.future)
+
+  /**
+   * Reverts the last change, or only the change `id` while nothing has been
+   * done since. Returns what was undone, or null when nothing was.
+   */
+  const undo = React.useCallback((id?: number) => {
+    setHistory(prev => {
+      const entry = nextEntry(prev.past, id)
+      if (!entry) return prev
+      return {
+        past: prev.past.slice(0, -1),
+        present: entry.state,
+        future: [...prev.future, { ...entry, state: prev.present }],
+      }
+    })
+    return stepOf(nextEntry(historyRef.current.past, id))
+  }, [])
+
+  /**
+   * Applies the last undone change again, or only the change `id` while it is
+   * the next to redo. Returns what was redone, or null when nothing was.
+   */
+  const redo = React.useCallback((id?: number) => {
+    setHistory(prev => {
+      const entry = nextEntry(prev.future, id)
+      if (!entry) return prev
+      return {
+        past: [...prev.past, { ...entry, state: prev.present }],
+        present: entry.state,
+        future: prev.future.slice(0, -1),
+      }
+    })
+    return stepOf(nextEntry(historyRef.current.future, id))
+  }, [])
+
+  return { state: history.present, commit, undo, redo, undoLabel, redoLabel }
+}
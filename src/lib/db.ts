@@ -0,0 +1,88 @@
+const DB_NAME = "mail-whisperer";
+
+/**
+ * Schema migrations, applied in order. Append a new entry to change the
+ * schema; never edit one that has shipped. The database version is the
+ * number of migrations.
+ */
+const migrations: ((db: IDBDatabase) => void)[] = [
+  db => {
+    db.createObjectStore("outboxMessages", { keyPath: "id" });
+    const jobs = db.createObjectStore("outboxJobs", { keyPath: "id" });
+    jobs.createIndex("messageId", "messageId");
+  },
+  db => {
+    db.createObjectStore("recipientLists", { keyPath: "id" });
+  },
+  db => {
+    db.createObjectStore("suppressions", { keyPath: "id" });
+  },
+];
+
+export type StoreName = "outboxMessages" | "outboxJobs" | "recipientLists" | "suppressions";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = () => {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, migrations.length);
+    request.onupgradeneeded = event => {
+      for (let version = event.oldVersion; version < migrations.length; version++) {
+        migrations[version](request.result);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the schema; let it, and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    databasePromise = null;
+    throw error;
+  });
+  return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `work` in a single transaction and resolves with its result once the
+ * transaction has committed.
+ */
+export const withTransaction = async <T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T> | T,
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+  try {
+    const result = await work(transaction);
+    await done;
+    return result;
+  } catch (error) {
+    done.catch(() => {});
+    if (transaction.error === null) {
+      try {
+        transaction.abort();
+      } catch {
+        // Already committed or aborted
+      }
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,10 @@
+/** Has the browser save `content` as a file called `fileName`. */
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked on the next tick, once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
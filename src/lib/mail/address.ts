@@ -0,0 +1,103 @@
+/** Whether an address can be sent to, and if not, why. */
+export type AddressValidation = { valid: true; reason?: undefined } | { valid: false; reason: string };
+
+// RFC 5321 limits: a 256-octet path, less the angle brackets, and 64 octets before the @
+const MAX_ADDRESS_LENGTH = 254;
+const MAX_LOCAL_LENGTH = 64;
+const MAX_DOMAIN_LENGTH = 253;
+const MAX_LABEL_LENGTH = 63;
+
+// RFC 5322 atext, plus any non-ASCII character as RFC 6531 allows
+const ATEXT = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~\-\u0080-\uFFFF]+$/;
+// qtext and quoted-pairs inside a quoted local part
+const QUOTED_CONTENT = /^(?:[\x20\x21\x23-\x5B\x5D-\x7E\u0080-\uFFFF]|\\[\x20-\x7E])*$/;
+const LDH_LABEL = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/;
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const IPV6 = /^IPv6:[0-9A-Fa-f:.]+$/;
+// Characters that can never appear in a domain, checked before the URL parser gives them other meanings
+const DOMAIN_DELIMITERS = /[\s/\\?#@:[\]%<>"]/;
+
+const invalid = (reason: string): AddressValidation => ({ valid: false, reason });
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+/**
+ * The ASCII form of a domain, with internationalized labels converted to
+ * punycode (`bücher.example` becomes `xn--bcher-kva.example`), or null when
+ * it is not a valid internationalized domain name.
+ */
+export const toAsciiDomain = (domain: string) => {
+  if (!domain || DOMAIN_DELIMITERS.test(domain)) return null;
+  try {
+    // The URL parser applies the IDNA mapping that browsers use for host names
+    return new URL(`http://${domain}`).hostname;
+  } catch {
+    return null;
+  }
+};
+
+const validateLocalPart = (local: string): AddressValidation => {
+  if (!local) return invalid("Missing the part before the @");
+  if (utf8Length(local) > MAX_LOCAL_LENGTH) return invalid(`The part before the @ is longer than ${MAX_LOCAL_LENGTH} characters`);
+
+  if (local.startsWith('"')) {
+    if (local.length < 2 || !local.endsWith('"') || !QUOTED_CONTENT.test(local.slice(1, -1))) {
+      return invalid("The quoted part before the @ is not closed or contains a character that isn't allowed");
+    }
+    return { valid: true };
+  }
+
+  if (local.startsWith(".") || local.endsWith(".")) return invalid("The part before the @ can't start or end with a dot");
+  if (local.includes("..")) return invalid("The part before the @ can't contain two dots in a row");
+  const bad = local.split(".").join("").split("").find(char => !ATEXT.test(char));
+  if (bad !== undefined) {
+    return invalid(bad === " " ? "The address can't contain spaces" : `The part before the @ can't contain "${bad}"`);
+  }
+  return { valid: true };
+};
+
+const validateDomain = (domain: string): AddressValidation => {
+  if (!domain) return invalid("Missing the domain after the @");
+
+  if (domain.startsWith("[")) {
+    const literal = domain.endsWith("]") ? domain.slice(1, -1) : "";
+    return IPV4.test(literal) || IPV6.test(literal) ? { valid: true } : invalid("The IP address after the @ is not valid");
+  }
+
+  if (/\s/.test(domain)) return invalid("The address can't contain spaces");
+  // Checked first because the URL parser rejects such hosts as malformed IPv4 addresses
+  if (/(^|\.)\d+\.?$/.test(domain)) return invalid("The domain can't end in a number");
+  const ascii = toAsciiDomain(domain);
+  if (ascii === null) return invalid("The domain after the @ contains a character that isn't allowed");
+  if (ascii.length > MAX_DOMAIN_LENGTH) return invalid(`The domain is longer than ${MAX_DOMAIN_LENGTH} characters`);
+
+  const labels = ascii.split(".");
+  if (labels.length < 2) return invalid("The domain needs a dot, as in example.com");
+  if (labels.some(label => label === "")) return invalid("The domain can't start or end with a dot or have two dots in a row");
+  if (labels.some(label => label.length > MAX_LABEL_LENGTH)) {
+    return invalid(`Each part of the domain must be ${MAX_LABEL_LENGTH} characters or fewer`);
+  }
+  if (!labels.every(label => LDH_LABEL.test(label))) {
+    return invalid("Parts of the domain can only use letters, digits and hyphens, and can't start or end with a hyphen");
+  }
+  return { valid: true };
+};
+
+/**
+ * Checks an address against the RFC 5321/5322 addr-spec rules: a dot-atom or
+ * quoted local part, a host name (internationalized ones included) or an
+ * address literal, and the SMTP length limits. Comments and folding
+ * whitespace are not accepted; pass the bare address.
+ */
+export const validateAddress = (address: string): AddressValidation => {
+  if (!address) return invalid("Enter an email address");
+  if (utf8Length(address) > MAX_ADDRESS_LENGTH) return invalid(`The address is longer than ${MAX_ADDRESS_LENGTH} characters`);
+
+  const at = address.lastIndexOf("@");
+  if (at === -1) return invalid("The address is missing an @");
+
+  const local = validateLocalPart(address.slice(0, at));
+  return local.valid ? validateDomain(address.slice(at + 1)) : local;
+};
+
+export const isValidAddress = (address: string) => validateAddress(address).valid;
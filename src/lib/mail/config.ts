@@ -0,0 +1,78 @@
+import { createHttpTransport } from "./http-transport";
+import { createMockTransport } from "./mock-transport";
+import { DEFAULT_THROTTLE, type ThrottleConfig } from "./throttle";
+import type { MailTransport } from "./types";
+
+export type TransportKind = "mock" | "http";
+
+export interface MailConfig {
+  transport: TransportKind;
+  apiUrl: string;
+  /** Sent to the mail API, which takes requests without it only from its own machine. */
+  apiToken?: string;
+  throttle: ThrottleConfig;
+  /** How long a sent message is held back so it can be undone. */
+  undoSendSeconds: number;
+  /** The mail API's unsubscribe page, possibly relative to the app; null leaves out List-Unsubscribe. */
+  unsubscribeUrl: string | null;
+}
+
+const UNDO_SEND_SECONDS = { min: 5, max: 30, default: 10 };
+
+const readCount = (env: Record<string, string | undefined>, name: string, fallback: number) => {
+  const value = env[name];
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+const readUndoSendSeconds = (env: Record<string, string | undefined>) => {
+  const seconds = readCount(env, "VITE_MAIL_UNDO_SEND_SECONDS", UNDO_SEND_SECONDS.default);
+  if (seconds < UNDO_SEND_SECONDS.min || seconds > UNDO_SEND_SECONDS.max) {
+    throw new Error(
+      `VITE_MAIL_UNDO_SEND_SECONDS must be between ${UNDO_SEND_SECONDS.min} and ${UNDO_SEND_SECONDS.max}, got "${seconds}"`,
+    );
+  }
+  return seconds;
+};
+
+// Only the mail API serves an unsubscribe page, so the mock transport gets no header unless one is configured
+const readUnsubscribeUrl = (env: Record<string, string | undefined>, transport: TransportKind, apiUrl: string) => {
+  const url = env.VITE_MAIL_UNSUBSCRIBE_URL;
+  if (url === undefined) return transport === "http" ? `${apiUrl.replace(/\/+$/, "")}/unsubscribe` : null;
+  return url || null;
+};
+
+export const readMailConfig = (env: Record<string, string | undefined> = import.meta.env): MailConfig => {
+  const transport = env.VITE_MAIL_TRANSPORT ?? "mock";
+  if (transport !== "mock" && transport !== "http") {
+    throw new Error(`Unknown VITE_MAIL_TRANSPORT "${transport}", expected "mock" or "http"`);
+  }
+  const apiUrl = env.VITE_MAIL_API_URL ?? "/api";
+  return {
+    transport,
+    apiUrl,
+    apiToken: env.VITE_MAIL_API_TOKEN || undefined,
+    throttle: {
+      messagesPerSecond: readCount(env, "VITE_MAIL_RATE_PER_SECOND", DEFAULT_THROTTLE.messagesPerSecond),
+      messagesPerMinute: readCount(env, "VITE_MAIL_RATE_PER_MINUTE", DEFAULT_THROTTLE.messagesPerMinute),
+      maxConcurrency: readCount(env, "VITE_MAIL_MAX_CONCURRENCY", DEFAULT_THROTTLE.maxConcurrency),
+      batchSize: readCount(env, "VITE_MAIL_BATCH_SIZE", DEFAULT_THROTTLE.batchSize),
+      batchPauseMs: readCount(env, "VITE_MAIL_BATCH_PAUSE_MS", DEFAULT_THROTTLE.batchPauseMs),
+    },
+    undoSendSeconds: readUndoSendSeconds(env),
+    unsubscribeUrl: readUnsubscribeUrl(env, transport, apiUrl),
+  };
+};
+
+export const createTransport = (config: MailConfig): MailTransport => {
+  switch (config.transport) {
+    case "http":
+      return createHttpTransport({ baseUrl: config.apiUrl, apiToken: config.apiToken });
+    case "mock":
+      return createMockTransport();
+  }
+};
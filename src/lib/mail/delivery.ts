@@ -0,0 +1,159 @@
+import { MailTransportError } from "./errors";
+import { filterRecipients, recipientsWithRoles } from "./recipients";
+import { mergeMessage } from "./template";
+import type { Throttle } from "./throttle";
+import type { MailAddress, MailMessage, MailTransport, RecipientRole } from "./types";
+
+/**
+ * How a message reaches its recipients:
+ * - "individual": a separate message for each recipient, addressed to them alone
+ * - "bcc": one message with every recipient in Bcc, so nobody sees the others
+ * - "fields": one message with the To, Cc and Bcc headers as composed
+ *
+ * One message is split into several once it has more recipients than the
+ * transport takes at once; each part then lists only its own recipients.
+ */
+export type SendMode = "individual" | "bcc" | "fields";
+
+/**
+ * Lifecycle of one recipient within a send:
+ * queued → sending → sent | failed, and failed → retrying → sending on retry.
+ * A "send later" message starts out scheduled rather than queued.
+ * Recipients still waiting can be cancelled.
+ */
+export type DeliveryState = "scheduled" | "queued" | "sending" | "sent" | "failed" | "retrying" | "cancelled";
+
+export interface DeliveryStatus {
+  state: DeliveryState;
+  /** How many times delivery to this recipient has been attempted. */
+  attempts: number;
+  /** Why the last attempt failed, when `state` is "failed". */
+  reason?: string;
+}
+
+/** Delivery status per recipient address. */
+export type DeliveryStatusMap = Record<string, DeliveryStatus>;
+
+export type StatusUpdate = (addresses: string[], state: DeliveryState, reason?: string) => void;
+
+export interface DeliverySummary {
+  sent: string[];
+  /**
+   * `transient` failures may succeed if tried again later. `refused` ones were
+   * turned down by the server for that address alone, rather than failing with
+   * the whole call, so their reason says something about the address.
+   */
+  failed: { address: string; reason: string; transient: boolean; refused: boolean }[];
+}
+
+// A 4xx SMTP reply means "try again later"
+const isTransientRejection = (reason: string) => /^4\d\d\b/.test(reason);
+
+export const countByState = (statuses: DeliveryStatusMap, addresses: string[]) => {
+  const counts: Record<DeliveryState, number> = { scheduled: 0, queued: 0, sending: 0, sent: 0, failed: 0, retrying: 0, cancelled: 0 };
+  for (const address of addresses) {
+    const status = statuses[address];
+    if (status) counts[status.state] += 1;
+  }
+  return counts;
+};
+
+export interface DeliveryOptions {
+  /** Reports every recipient's progress through the lifecycle. */
+  onStatus?: StatusUpdate;
+  /** Called with the outcome of each transport call as soon as it completes. */
+  onProgress?: (chunk: DeliverySummary) => void;
+  /** Paces the transport calls; without one they go out one after another. */
+  throttle?: Throttle;
+  /**
+   * Last chance to drop recipients right before their call goes out, e.g.
+   * ones cancelled while waiting for the throttle.
+   */
+  beforeSend?: (to: MailAddress[]) => Promise<MailAddress[]>;
+  /** Defaults to "fields". */
+  mode?: SendMode;
+}
+
+// The messages to hand to the transport, each no larger than it accepts
+const splitIntoCalls = (message: MailMessage, mode: SendMode, maxRecipients: number): MailMessage[] => {
+  const recipients = recipientsWithRoles(message);
+  const { mergeFields, ...template } = message;
+  if (mode === "individual") {
+    return recipients.map(({ recipient }) => ({
+      ...(mergeFields ? mergeMessage(template, mergeFields[recipient.address] ?? {}) : template),
+      to: [recipient],
+      cc: [],
+      bcc: [],
+    }));
+  }
+  // Everyone gets the same copy, so placeholders only get their defaults
+  const shared = mergeFields ? mergeMessage(template, {}) : template;
+
+  const calls: MailMessage[] = [];
+  for (let i = 0; i < recipients.length; i += maxRecipients) {
+    const part = recipients.slice(i, i + maxRecipients);
+    const listed = (role: RecipientRole) => part.filter(entry => entry.role === role).map(({ recipient }) => recipient);
+    calls.push(mode === "bcc"
+      ? { ...shared, to: [], cc: [], bcc: part.map(({ recipient }) => recipient) }
+      : { ...shared, to: listed("to"), cc: listed("cc"), bcc: listed("bcc") });
+  }
+  return calls;
+};
+
+/**
+ * Sends `message` to each of its recipients in the given send mode, split
+ * into as many transport calls as the mode and the transport's recipient
+ * limit require. A failing call marks only the recipients it carried as
+ * failed; the remaining calls still go out.
+ */
+export const deliverMessage = async (
+  transport: MailTransport,
+  message: MailMessage,
+  { onStatus = () => {}, onProgress = () => {}, throttle, beforeSend, mode = "fields" }: DeliveryOptions = {},
+): Promise<DeliverySummary> => {
+  const summary: DeliverySummary = { sent: [], failed: [] };
+
+  const sendCall = async (planned: MailMessage) => {
+    let call = planned;
+    if (beforeSend) {
+      const kept = new Set((await beforeSend(recipientsWithRoles(planned).map(({ recipient }) => recipient)))
+        .map(recipient => recipient.address));
+      call = filterRecipients(planned, recipient => kept.has(recipient.address));
+    }
+    const addresses = recipientsWithRoles(call).map(({ recipient }) => recipient.address);
+    if (addresses.length === 0) return;
+
+    const chunk: DeliverySummary = { sent: [], failed: [] };
+    onStatus(addresses, "sending");
+
+    try {
+      const result = await transport.send(call);
+      onStatus(result.accepted, "sent");
+      chunk.sent.push(...result.accepted);
+      for (const { address, reason } of result.rejected) {
+        onStatus([address], "failed", reason);
+        chunk.failed.push({ address, reason, transient: isTransientRejection(reason), refused: true });
+      }
+    } catch (error) {
+      const reason = error instanceof MailTransportError ? error.message : "Unexpected error while sending";
+      const transient = error instanceof MailTransportError && error.transient;
+      onStatus(addresses, "failed", reason);
+      chunk.failed.push(...addresses.map(address => ({ address, reason, transient, refused: false })));
+    }
+
+    summary.sent.push(...chunk.sent);
+    summary.failed.push(...chunk.failed);
+    onProgress(chunk);
+  };
+
+  const calls = splitIntoCalls(message, mode, transport.capabilities.maxRecipientsPerMessage);
+  if (throttle) {
+    await Promise.all(calls.map(call => throttle.schedule(() => sendCall(call))));
+  } else {
+    for (const call of calls) {
+      await sendCall(call);
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,12 @@
+export class MailTransportError extends Error {
+  /** Transient failures (timeouts, 4xx SMTP replies, network errors) may succeed on retry. */
+  readonly transient: boolean;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: { transient?: boolean; cause?: unknown } = {}) {
+    super(message);
+    this.name = "MailTransportError";
+    this.transient = options.transient ?? false;
+    this.cause = options.cause;
+  }
+}
@@ -0,0 +1,63 @@
+import { MailTransportError } from "./errors";
+import { buildMimeMessage } from "./mime";
+import type { MailMessage, MailTransport, SendResult, TransportCapabilities } from "./types";
+
+export interface HttpTransportOptions {
+  /** Base URL of the mail API, e.g. `/api` or `https://mail.example.com/api`. */
+  baseUrl: string;
+  /** Sent as a bearer token; the mail API takes requests without it only from its own machine. */
+  apiToken?: string;
+  timeoutMs?: number;
+}
+
+export const createHttpTransport = ({ baseUrl, apiToken, timeoutMs = 30_000 }: HttpTransportOptions): MailTransport => {
+  const endpoint = (path: string) => `${baseUrl.replace(/\/+$/, "")}${path}`;
+  const authorization: Record<string, string> = apiToken ? { Authorization: `Bearer ${apiToken}` } : {};
+  const capabilities: TransportCapabilities = {
+    attachments: true,
+    maxMessageBytes: 25 * 1024 * 1024,
+    maxRecipientsPerMessage: 100,
+  };
+
+  const request = async (path: string, init: RequestInit) => {
+    let response: Response;
+    try {
+      response = await fetch(endpoint(path), {
+        ...init,
+        headers: { ...authorization, ...init.headers },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      throw new MailTransportError("Mail server could not be reached", { transient: true, cause: error });
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new MailTransportError(body?.error ?? `Mail server responded with ${response.status}`, {
+        transient: body?.transient ?? (response.status >= 500 || response.status === 429),
+      });
+    }
+    return body;
+  };
+
+  return {
+    name: "http",
+    capabilities,
+    async send(message: MailMessage) {
+      const mime = await buildMimeMessage(message);
+      if (mime.raw.length > capabilities.maxMessageBytes) {
+        throw new MailTransportError("Message exceeds the maximum size accepted by the mail server");
+      }
+
+      const result = (await request("/send", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ envelope: mime.envelope, raw: mime.raw }),
+      })) as SendResult;
+      return { ...result, messageId: result.messageId || mime.messageId };
+    },
+    async verify() {
+      await request("/verify", { method: "GET" });
+    },
+  };
+};
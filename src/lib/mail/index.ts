@@ -0,0 +1,30 @@
+export * from "./types";
+export { MailTransportError } from "./errors";
+export { isValidAddress, toAsciiDomain, validateAddress, type AddressValidation } from "./address";
+export { buildMimeMessage, contentTypeFor, textToHtml, type MimeMessage } from "./mime";
+export { createMockTransport, type MockTransport, type MockTransportOptions } from "./mock-transport";
+export { createHttpTransport, type HttpTransportOptions } from "./http-transport";
+export { createTransport, readMailConfig, type MailConfig, type TransportKind } from "./config";
+export {
+  countByState,
+  deliverMessage,
+  type DeliveryOptions,
+  type DeliveryState,
+  type DeliveryStatus,
+  type DeliveryStatusMap,
+  type DeliverySummary,
+  type SendMode,
+  type StatusUpdate,
+} from "./delivery";
+export { RECIPIENT_ROLES, allRecipients, filterRecipients } from "./recipients";
+export {
+  hasPlaceholders,
+  lookupMergeValue,
+  mergeFieldKey,
+  mergeMessage,
+  parseTemplate,
+  renderTemplate,
+  type MergeValues,
+  type TemplatePlaceholder,
+} from "./template";
+export { createThrottle, DEFAULT_THROTTLE, type Throttle, type ThrottleConfig } from "./throttle";
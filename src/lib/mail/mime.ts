@@ -0,0 +1,276 @@
+import { toAsciiDomain } from "./address";
+import { allRecipients } from "./recipients";
+import type { MailAddress, MailAttachment, MailMessage } from "./types";
+
+/** An RFC 5322 message as it goes over the wire, plus the SMTP envelope to deliver it with. */
+export interface MimeMessage {
+  messageId: string;
+  envelope: { from: string; to: string[] };
+  /** The complete message, 7-bit clean with CRLF line endings. */
+  raw: string;
+}
+
+const CRLF = "\r\n";
+const MAX_LINE = 76;
+const encoder = new TextEncoder();
+
+const isPrintableAscii = (value: string) => /^[\x20-\x7e]*$/.test(value);
+
+// Header values must never carry line breaks of their own (header injection).
+const singleLine = (value: string) => value.replace(/[\r\n]+/g, " ");
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, "0")).join("");
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  // Chunked to stay under the argument limit of String.fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const wrapLines = (value: string, width = MAX_LINE) => {
+  const lines: string[] = [];
+  for (let i = 0; i < value.length; i += width) {
+    lines.push(value.slice(i, i + width));
+  }
+  return lines.join(CRLF);
+};
+
+/**
+ * RFC 2047 "B" encoded-words. Each word stays within the 75 character limit
+ * and never splits a multi-byte character.
+ */
+export const encodeWords = (value: string) => {
+  const words: string[] = [];
+  let chunk = "";
+  let chunkBytes = 0;
+  for (const char of value) {
+    const charBytes = encoder.encode(char).length;
+    // 39 bytes encode to 52 base64 characters, plus 12 for the =?UTF-8?B??= wrapper,
+    // which leaves room for the header name on the first line
+    if (chunkBytes + charBytes > 39) {
+      words.push(chunk);
+      chunk = "";
+      chunkBytes = 0;
+    }
+    chunk += char;
+    chunkBytes += charBytes;
+  }
+  if (chunk) words.push(chunk);
+  return words.map(word => `=?UTF-8?B?${bytesToBase64(encoder.encode(word))}?=`).join(" ");
+};
+
+const encodeUnstructured = (value: string) => {
+  const line = singleLine(value);
+  return isPrintableAscii(line) ? line : encodeWords(line);
+};
+
+// Internationalized domains are written in punycode so the headers stay 7-bit clean. The
+// envelope keeps the addresses as given, since delivery results are matched against it.
+const wireAddress = (address: string) => {
+  const at = address.lastIndexOf("@");
+  const domain = address.slice(at + 1);
+  return at === -1 || domain.startsWith("[") ? address : `${address.slice(0, at)}@${toAsciiDomain(domain) ?? domain}`;
+};
+
+export const formatAddress = ({ address: rawAddress, name }: MailAddress) => {
+  const address = wireAddress(rawAddress);
+  const displayName = name ? singleLine(name).trim() : "";
+  if (!displayName) return address;
+  if (!isPrintableAscii(displayName)) return `${encodeWords(displayName)} <${address}>`;
+  // atext and spaces can go bare, anything else (commas, dots, quotes...) needs a quoted-string
+  if (/^[A-Za-z0-9!#$%&'*+\-/=?^_`{|}~ ]+$/.test(displayName)) return `${displayName} <${address}>`;
+  return `"${displayName.replace(/(["\\])/g, "\\$1")}" <${address}>`;
+};
+
+/** Folds a header onto continuation lines at whitespace so no line exceeds 78 characters. */
+const foldHeader = (name: string, value: string) => {
+  const lines: string[] = [];
+  let line = `${name}:`;
+  for (const word of value.split(" ")) {
+    if (line.length + 1 + word.length > 78 && line.trim().length > name.length + 1) {
+      lines.push(line);
+      line = "";
+    }
+    line += ` ${word}`;
+  }
+  lines.push(line);
+  return lines.join(CRLF);
+};
+
+/**
+ * A MIME parameter such as `filename`. Non-ASCII values use RFC 2231
+ * percent-encoding, split into numbered continuations when long.
+ */
+const encodeParameter = (key: string, value: string) => {
+  const clean = singleLine(value);
+  if (isPrintableAscii(clean)) return `${key}="${clean.replace(/(["\\])/g, "\\$1")}"`;
+
+  const encoded = encodeURIComponent(clean).replace(
+    /['()*!]/g,
+    c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  if (encoded.length <= 40) return `${key}*=UTF-8''${encoded}`;
+
+  const segments: string[] = [];
+  let rest = encoded;
+  while (rest.length > 0) {
+    let end = Math.min(40, rest.length);
+    // Do not cut through a %XX escape
+    const percent = rest.lastIndexOf("%", end - 1);
+    if (percent > end - 3) end = percent;
+    segments.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+  return segments
+    .map((segment, i) => (i === 0 ? `${key}*0*=UTF-8''${segment}` : `${key}*${i}*=${segment}`))
+    .join("; ");
+};
+
+export const encodeQuotedPrintable = (text: string) =>
+  text
+    .replace(/\r\n|\r/g, "\n")
+    .split("\n")
+    .map(line => {
+      const bytes = encoder.encode(line);
+      let encoded = "";
+      let current = "";
+      bytes.forEach((byte, i) => {
+        const isLast = i === bytes.length - 1;
+        const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+        const token = literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+        // Leave room for the "=" soft line break
+        if (current.length + token.length > MAX_LINE - 1) {
+          encoded += `${current}=${CRLF}`;
+          current = "";
+        }
+        current += token;
+      });
+      return encoded + current;
+    })
+    .join(CRLF);
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Plain text to a minimal HTML body: blank lines become paragraphs, single newlines `<br>`. */
+export const textToHtml = (text: string) => {
+  const paragraphs = text
+    .replace(/\r\n|\r/g, "\n")
+    .split(/\n{2,}/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`);
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"></head><body>${paragraphs.join("")}</body></html>`;
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  txt: "text/plain",
+  csv: "text/csv",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  zip: "application/zip",
+  rar: "application/vnd.rar",
+};
+
+/** The declared type when the browser knows it, otherwise a guess from the file extension. */
+export const contentTypeFor = (filename: string, declared?: string) => {
+  if (declared && /^[\w.+-]+\/[\w.+-]+$/.test(declared)) return declared;
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES[extension] ?? "application/octet-stream";
+};
+
+export const formatDate = (date: Date) => {
+  const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const offset = -date.getTimezoneOffset();
+  const zone = `${offset >= 0 ? "+" : "-"}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`;
+  return `${days[date.getDay()]}, ${pad(date.getDate())} ${months[date.getMonth()]} ${date.getFullYear()} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())} ${zone}`;
+};
+
+const textPart = (contentType: string, body: string) =>
+  [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    encodeQuotedPrintable(body),
+  ].join(CRLF);
+
+const attachmentPart = async (attachment: MailAttachment) => {
+  const bytes = new Uint8Array(await attachment.content.arrayBuffer());
+  return [
+    foldHeader("Content-Type", `${contentTypeFor(attachment.filename, attachment.contentType)}; ${encodeParameter("name", attachment.filename)}`),
+    "Content-Transfer-Encoding: base64",
+    foldHeader("Content-Disposition", `attachment; ${encodeParameter("filename", attachment.filename)}`),
+    "",
+    wrapLines(bytesToBase64(bytes)),
+  ].join(CRLF);
+};
+
+const multipart = (subtype: string, parts: string[]) => {
+  const boundary = `=_mw_${randomHex(8)}`;
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    "",
+    ...parts.flatMap(part => [`--${boundary}`, part]),
+    `--${boundary}--`,
+    "",
+  ].join(CRLF);
+};
+
+/**
+ * The List-Unsubscribe header (RFC 2369), for a message to one recipient. The
+ * mail API adds a token for that recipient to the link before relaying it; a
+ * link for several recipients couldn't say which of them unsubscribes.
+ */
+const unsubscribeHeaders = (unsubscribeUrl: string, to: string[]) =>
+  to.length === 1 ? [foldHeader("List-Unsubscribe", `<${new URL(unsubscribeUrl).href}>`)] : [];
+
+/**
+ * Encodes a message as multipart/alternative (text and HTML), wrapped in
+ * multipart/mixed together with base64 attachments when there are any.
+ */
+export const buildMimeMessage = async (message: MailMessage): Promise<MimeMessage> => {
+  const domain = wireAddress(message.from.address).split("@").pop() || "localhost";
+  const messageId = `<${randomHex(16)}@${domain}>`;
+  // Bcc recipients are only in the envelope, never in a header
+  const envelopeTo = allRecipients(message).map(recipient => recipient.address);
+
+  const body = multipart("alternative", [
+    textPart("text/plain", message.text),
+    textPart("text/html", message.html ?? textToHtml(message.text)),
+  ]);
+  const content = message.attachments.length > 0
+    ? multipart("mixed", [body, ...(await Promise.all(message.attachments.map(attachmentPart)))])
+    : body;
+
+  const headers = [
+    foldHeader("From", formatAddress(message.from)),
+    // A message with nobody in To still needs the header for some clients
+    foldHeader("To", message.to.length > 0 ? message.to.map(formatAddress).join(", ") : "undisclosed-recipients:;"),
+    ...(message.cc?.length ? [foldHeader("Cc", message.cc.map(formatAddress).join(", "))] : []),
+    foldHeader("Subject", encodeUnstructured(message.subject)),
+    `Date: ${formatDate(message.date)}`,
+    `Message-ID: ${messageId}`,
+    ...(message.unsubscribeUrl ? unsubscribeHeaders(message.unsubscribeUrl, envelopeTo) : []),
+    "MIME-Version: 1.0",
+  ];
+
+  return {
+    messageId,
+    envelope: {
+      from: message.from.address,
+      to: envelopeTo,
+    },
+    raw: `${headers.join(CRLF)}${CRLF}${content}`,
+  };
+};
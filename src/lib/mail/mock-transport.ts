@@ -0,0 +1,68 @@
+import { MailTransportError } from "./errors";
+import { buildMimeMessage, type MimeMessage } from "./mime";
+import type { MailTransport, SendResult, TransportCapabilities } from "./types";
+
+export interface MockTransportOptions {
+  /** Simulated round-trip time for each `send`. */
+  latencyMs?: number;
+  /** Return a reason to reject an address, or null to accept it. */
+  rejectAddress?: (address: string) => string | null;
+  /** How many of the latest encoded messages `sent` holds on to. */
+  keepSent?: number;
+}
+
+export interface MockTransport extends MailTransport {
+  /** The latest encoded messages handed to `send`, oldest first. */
+  readonly sent: MimeMessage[];
+}
+
+// Addresses under the reserved `.invalid` TLD (RFC 2606) are rejected so
+// failure handling can be exercised without a real server.
+const rejectInvalidTld = (address: string) =>
+  address.toLowerCase().endsWith(".invalid") ? "550 5.1.1 Mailbox unavailable (mock)" : null;
+
+export const createMockTransport = ({
+  latencyMs = 500,
+  rejectAddress = rejectInvalidTld,
+  keepSent = 20,
+}: MockTransportOptions = {}): MockTransport => {
+  const sent: MimeMessage[] = [];
+  const capabilities: TransportCapabilities = {
+    attachments: true,
+    maxMessageBytes: 25 * 1024 * 1024,
+    maxRecipientsPerMessage: 100,
+  };
+
+  return {
+    name: "mock",
+    capabilities,
+    sent,
+    async send(message) {
+      const mime = await buildMimeMessage(message);
+      if (mime.raw.length > capabilities.maxMessageBytes) {
+        throw new MailTransportError("Message exceeds the maximum size accepted by the mail server");
+      }
+
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+      // Messages carry their attachments, so a large send mustn't pile them all up
+      sent.push(mime);
+      if (sent.length > keepSent) sent.splice(0, sent.length - keepSent);
+
+      const result: SendResult = {
+        messageId: mime.messageId,
+        accepted: [],
+        rejected: [],
+      };
+      for (const address of mime.envelope.to) {
+        const reason = rejectAddress(address);
+        if (reason) {
+          result.rejected.push({ address, reason });
+        } else {
+          result.accepted.push(address);
+        }
+      }
+      return result;
+    },
+    async verify() {},
+  };
+};
@@ -0,0 +1,19 @@
+import type { MailAddress, MailMessage, RecipientRole } from "./types";
+
+export const RECIPIENT_ROLES: RecipientRole[] = ["to", "cc", "bcc"];
+
+/** Every recipient of `message` with the header it is listed under, To first, then Cc, then Bcc. */
+export const recipientsWithRoles = (message: MailMessage) =>
+  RECIPIENT_ROLES.flatMap(role => (message[role] ?? []).map(recipient => ({ recipient, role })));
+
+/** Every address the message is delivered to, whatever header it is listed under. */
+export const allRecipients = (message: MailMessage): MailAddress[] =>
+  recipientsWithRoles(message).map(({ recipient }) => recipient);
+
+/** A copy of `message` that only goes to the recipients `keep` accepts. */
+export const filterRecipients = (message: MailMessage, keep: (recipient: MailAddress) => boolean): MailMessage => ({
+  ...message,
+  to: message.to.filter(keep),
+  cc: message.cc?.filter(keep),
+  bcc: message.bcc?.filter(keep),
+});
@@ -0,0 +1,71 @@
+import { escapeHtml } from "./mime";
+import type { MailMessage } from "./types";
+
+/** A `{{field}}` or `{{field | default: "text"}}` placeholder in a subject or message. */
+export interface TemplatePlaceholder {
+  /** As written, braces included. */
+  source: string;
+  field: string;
+  /** Filled in when the recipient has no value for `field`. */
+  fallback?: string;
+}
+
+/** One recipient's values for the placeholders, by field name. */
+export type MergeValues = Record<string, string>;
+
+const PLACEHOLDER = /\{\{([\s\S]*?)\}\}/g;
+const PLACEHOLDER_BODY = /^\s*([^|{}"']+?)\s*(?:\|\s*default\s*:\s*(?:"([^"]*)"|'([^']*)')\s*)?$/;
+
+const parsePlaceholder = (source: string, body: string): TemplatePlaceholder | null => {
+  const match = PLACEHOLDER_BODY.exec(body);
+  return match && { source, field: match[1], fallback: match[2] ?? match[3] };
+};
+
+/**
+ * How field names are compared: case and spacing don't matter, so
+ * `{{First Name}}` is filled in from a "first name" column.
+ */
+export const mergeFieldKey = (field: string) => field.trim().replace(/\s+/g, " ").toLowerCase();
+
+/** The placeholders in `template`, and why each malformed one can't be filled in. */
+export const parseTemplate = (template: string) => {
+  const placeholders: TemplatePlaceholder[] = [];
+  const errors: string[] = [];
+  for (const [source, body] of template.matchAll(PLACEHOLDER)) {
+    const placeholder = parsePlaceholder(source, body);
+    if (placeholder) placeholders.push(placeholder);
+    else errors.push(`${source} isn't a placeholder; write {{field}} or {{field | default: "text"}}`);
+  }
+  if (template.replace(PLACEHOLDER, "").includes("{{")) errors.push("A {{ is never closed with }}");
+  return { placeholders, errors };
+};
+
+/** Whether `template` has placeholders to fill in. */
+export const hasPlaceholders = (template: string) => parseTemplate(template).placeholders.length > 0;
+
+/** A field's value, or undefined when it is missing or blank. */
+export const lookupMergeValue = (values: MergeValues, field: string) => {
+  const key = mergeFieldKey(field);
+  const found = Object.entries(values).find(([name]) => mergeFieldKey(name) === key)?.[1];
+  return found?.trim() ? found : undefined;
+};
+
+/**
+ * Fills in the placeholders of `template` from `values`. A missing value
+ * without a default is left empty; malformed placeholders stay as written.
+ */
+export const renderTemplate = (template: string, values: MergeValues, escape = (value: string) => value) =>
+  template.replace(PLACEHOLDER, (source: string, body: string) => {
+    const placeholder = parsePlaceholder(source, body);
+    if (!placeholder) return source;
+    return escape(lookupMergeValue(values, placeholder.field) ?? placeholder.fallback ?? "");
+  });
+
+/** `message` with its subject and body filled in for one recipient. */
+export const mergeMessage = (message: MailMessage, values: MergeValues): MailMessage => ({
+  ...message,
+  // A value can't break the subject across header lines
+  subject: renderTemplate(message.subject, values, value => value.replace(/\s+/g, " ")),
+  text: renderTemplate(message.text, values),
+  html: message.html && renderTemplate(message.html, values, escapeHtml),
+});
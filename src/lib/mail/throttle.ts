@@ -0,0 +1,91 @@
+export interface ThrottleConfig {
+  /** Most transport calls started in any one-second window; 0 for no limit. */
+  messagesPerSecond: number;
+  /** Most transport calls started in any one-minute window; 0 for no limit. */
+  messagesPerMinute: number;
+  /** Most transport calls in flight at once. */
+  maxConcurrency: number;
+  /** Pause for `batchPauseMs` after every `batchSize` calls; 0 for no batching. */
+  batchSize: number;
+  batchPauseMs: number;
+}
+
+export const DEFAULT_THROTTLE: ThrottleConfig = {
+  messagesPerSecond: 5,
+  messagesPerMinute: 120,
+  maxConcurrency: 2,
+  batchSize: 50,
+  batchPauseMs: 10_000,
+};
+
+export interface Throttle {
+  readonly config: ThrottleConfig;
+  /** Runs `task` once the rate, concurrency and batch limits allow it. */
+  schedule<T>(task: () => Promise<T>): Promise<T>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createThrottle = (config: ThrottleConfig): Throttle => {
+  const maxConcurrency = Math.max(1, config.maxConcurrency);
+  // Start times of the calls made in the last minute, oldest first
+  const started: number[] = [];
+  const waitingForRelease: (() => void)[] = [];
+  let active = 0;
+  let sinceBatchStart = 0;
+  let pausedUntil = 0;
+  // Callers take their turn one at a time, so slots are handed out in order
+  let queue: Promise<void> = Promise.resolve();
+
+  const waitTime = (now: number) => {
+    while (started.length > 0 && started[0] <= now - 60_000) started.shift();
+
+    let wait = pausedUntil - now;
+    if (config.messagesPerMinute > 0 && started.length >= config.messagesPerMinute) {
+      wait = Math.max(wait, started[started.length - config.messagesPerMinute] + 60_000 - now);
+    }
+    if (config.messagesPerSecond > 0 && started.length >= config.messagesPerSecond) {
+      wait = Math.max(wait, started[started.length - config.messagesPerSecond] + 1_000 - now);
+    }
+    return wait;
+  };
+
+  const acquire = async () => {
+    for (;;) {
+      if (active >= maxConcurrency) {
+        await new Promise<void>(resolve => waitingForRelease.push(resolve));
+        continue;
+      }
+      const wait = waitTime(Date.now());
+      if (wait <= 0) break;
+      await sleep(wait);
+    }
+
+    active += 1;
+    started.push(Date.now());
+    sinceBatchStart += 1;
+    if (config.batchSize > 0 && sinceBatchStart >= config.batchSize) {
+      sinceBatchStart = 0;
+      pausedUntil = Date.now() + config.batchPauseMs;
+    }
+  };
+
+  const release = () => {
+    active -= 1;
+    waitingForRelease.shift()?.();
+  };
+
+  return {
+    config,
+    async schedule(task) {
+      const turn = queue.then(acquire);
+      queue = turn;
+      await turn;
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+  };
+};
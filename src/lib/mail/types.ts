@@ -0,0 +1,62 @@
+export interface MailAddress {
+  address: string;
+  name?: string;
+}
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  content: Blob;
+}
+
+/** Which header a recipient is listed under. Bcc recipients appear in no header at all. */
+export type RecipientRole = "to" | "cc" | "bcc";
+
+/** A fully composed message, ready to be handed to a transport. */
+export interface MailMessage {
+  from: MailAddress;
+  to: MailAddress[];
+  cc?: MailAddress[];
+  bcc?: MailAddress[];
+  subject: string;
+  text: string;
+  /** HTML alternative; derived from `text` when omitted. */
+  html?: string;
+  attachments: MailAttachment[];
+  date: Date;
+  /** Absolute URL of the unsubscribe page, offered in a List-Unsubscribe header. */
+  unsubscribeUrl?: string;
+  /**
+   * Values for the `{{placeholders}}` in the subject and body, per recipient
+   * address. Only set when they have placeholders; see `mergeMessage`.
+   */
+  mergeFields?: Record<string, Record<string, string>>;
+}
+
+export interface RejectedRecipient {
+  address: string;
+  reason: string;
+}
+
+export interface SendResult {
+  messageId: string;
+  accepted: string[];
+  rejected: RejectedRecipient[];
+}
+
+export interface TransportCapabilities {
+  attachments: boolean;
+  /** Upper bound for the encoded message, in bytes. */
+  maxMessageBytes: number;
+  /** How many addresses a single `send` call accepts. */
+  maxRecipientsPerMessage: number;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  readonly capabilities: TransportCapabilities;
+  send(message: MailMessage): Promise<SendResult>;
+  /** Resolves when the transport is reachable and configured, rejects otherwise. */
+  verify(): Promise<void>;
+}
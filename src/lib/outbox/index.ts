@@ -0,0 +1,19 @@
+export * from "./types";
+export { getAllJobs, getAllMessages, getJobsForMessage } from "./store";
+export {
+  RETRY_POLICY,
+  backoffDelay,
+  cancelJobs,
+  cancelWaitingMessage,
+  clearFinishedJobs,
+  editWaitingMessage,
+  enqueueMessage,
+  isAwaitingDispatch,
+  jobDeliveryStatus,
+  processOutbox,
+  rescheduleMessage,
+  retryJobs,
+  startOutbox,
+  subscribeToOutbox,
+  type EnqueueOptions,
+} from "./outbox";
@@ -0,0 +1,482 @@
+import {
+  allRecipients,
+  deliverMessage,
+  filterRecipients,
+  type DeliveryStatus,
+  type DeliverySummary,
+  type MailMessage,
+  type MailTransport,
+  type SendMode,
+  type Throttle,
+} from "@/lib/mail";
+import { isHardBounce, loadSuppressionMatcher, suppressAddresses, suppressionReason } from "@/lib/recipients";
+import * as store from "./store";
+import type { OutboxJob, SendSchedule } from "./types";
+
+export const RETRY_POLICY = {
+  maxAttempts: 5,
+  baseDelayMs: 10_000,
+  maxDelayMs: 15 * 60_000,
+};
+
+/** Delay before the next automatic attempt, doubling with each attempt made so far. */
+export const backoffDelay = (attempts: number) => {
+  const delay = Math.min(RETRY_POLICY.baseDelayMs * 2 ** Math.max(attempts - 1, 0), RETRY_POLICY.maxDelayMs);
+  // ±20% jitter so a batch that failed together does not retry in lockstep
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+// Only a "send later" message has jobs that are due in the future before their first attempt
+const isScheduled = (job: OutboxJob) => job.state === "pending" && job.attempts === 0 && job.nextAttemptAt > Date.now();
+
+/** How a job shows up in the recipients list. */
+export const jobDeliveryStatus = (job: OutboxJob): DeliveryStatus => ({
+  state: job.state === "pending"
+    ? (job.attempts > 0 ? "retrying" : isScheduled(job) ? "scheduled" : "queued")
+    : job.state,
+  attempts: job.attempts,
+  reason: job.lastError,
+});
+
+/** Whether a message has yet to go out to anyone, so it can still be edited or rescheduled. */
+export const isAwaitingDispatch = (jobs: OutboxJob[]) =>
+  jobs.some(job => job.state === "pending") &&
+  jobs.every(job => job.attempts === 0 && (job.state === "pending" || job.state === "cancelled"));
+
+const listeners = new Set<() => void>();
+
+export const subscribeToOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Every open tab starts an outbox, but only the one holding this lock delivers, so no two send the same
+// job; the others hand their runs to it and hear about its changes over the channel
+const DELIVERY_LOCK = "mail-whisperer:outbox-delivery";
+const CHANNEL_NAME = "mail-whisperer:outbox";
+
+type OutboxSignal =
+  | { type: "changed" }
+  | { type: "process"; id: string }
+  /** Without an id, every run asked for so far has finished. */
+  | { type: "processed"; id?: string };
+
+let channel: BroadcastChannel | null = null;
+let isDeliveringTab = false;
+// Runs this tab asked the delivering tab for, by id
+const requestedRuns = new Map<string, () => void>();
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+const signalTabs = (signal: OutboxSignal) => channel?.postMessage(signal);
+
+// A large send settles jobs many times a second, and each change has listeners reload the whole
+// outbox, so changes are passed on at most this often
+const NOTIFY_INTERVAL_MS = 250;
+let notifyTimer: ReturnType<typeof setTimeout> | undefined;
+
+const notify = () => {
+  if (notifyTimer !== undefined) return;
+  notifyTimer = setTimeout(() => {
+    notifyTimer = undefined;
+    notifyListeners();
+    signalTabs({ type: "changed" });
+  }, NOTIFY_INTERVAL_MS);
+};
+
+let transport: MailTransport | null = null;
+let throttle: Throttle | undefined;
+let timer: ReturnType<typeof setTimeout> | undefined;
+// Runs are chained so two never deliver the same job concurrently.
+let processing: Promise<void> = Promise.resolve();
+
+const enqueueRun = (run: () => Promise<void>) => {
+  processing = processing.then(run).catch(error => console.error("Outbox processing failed:", error));
+  return processing;
+};
+
+// Changes to a waiting message are queued behind delivery runs, so one never
+// lands between a run reading a job and writing it back
+const afterRuns = <T>(change: () => Promise<T>) => {
+  const result = processing.then(change);
+  processing = result.then(() => undefined, () => undefined);
+  return result;
+};
+
+export interface EnqueueOptions {
+  /** Defaults to "fields". */
+  sendMode?: SendMode;
+  /** Holds the jobs back until the chosen time. */
+  schedule?: SendSchedule;
+}
+
+/** Stores the message and one pending job per recipient. Resolves with the message id. */
+export const enqueueMessage = async (message: MailMessage, { sendMode = "fields", schedule }: EnqueueOptions = {}) => {
+  const now = Date.now();
+  const dueAt = schedule?.at ?? now;
+  const id = crypto.randomUUID();
+  const addresses = [...new Set(allRecipients(message).map(recipient => recipient.address))];
+  const jobs: OutboxJob[] = addresses.map(address => ({
+    id: crypto.randomUUID(),
+    messageId: id,
+    address,
+    state: "pending",
+    attempts: 0,
+    maxAttempts: RETRY_POLICY.maxAttempts,
+    nextAttemptAt: dueAt,
+    createdAt: now,
+    updatedAt: now,
+  }));
+
+  await store.saveMessageWithJobs(
+    {
+      id,
+      // A scheduled message is dated when it is due to go out, not when it was written
+      message: schedule ? { ...message, date: new Date(dueAt) } : message,
+      sendMode,
+      createdAt: now,
+      scheduledAt: schedule?.at,
+      timeZone: schedule?.timeZone,
+    },
+    jobs,
+  );
+  notify();
+  return id;
+};
+
+const loadAwaitingDispatch = async (id: string) => {
+  const [stored, jobs] = await Promise.all([store.getMessage(id), store.getJobsForMessage(id)]);
+  if (!stored || !isAwaitingDispatch(jobs)) {
+    throw new Error("The message has already been sent or cancelled");
+  }
+  return { stored, jobs };
+};
+
+/** Changes the content of a message nobody has been sent yet. */
+export const editWaitingMessage = async (id: string, changes: Partial<Pick<MailMessage, "subject" | "text" | "html">>) => {
+  await afterRuns(async () => {
+    const { stored } = await loadAwaitingDispatch(id);
+    await store.putMessage({ ...stored, message: { ...stored.message, ...changes } });
+  });
+  notify();
+};
+
+/** Moves a message nobody has been sent yet to a new send time; a past time sends it now. */
+export const rescheduleMessage = async (id: string, schedule: SendSchedule) => {
+  await afterRuns(async () => {
+    const { stored, jobs } = await loadAwaitingDispatch(id);
+    const now = Date.now();
+    await store.saveMessageWithJobs(
+      {
+        ...stored,
+        message: { ...stored.message, date: new Date(Math.max(schedule.at, now)) },
+        scheduledAt: schedule.at,
+        timeZone: schedule.timeZone,
+      },
+      jobs
+        .filter(job => job.state === "pending")
+        .map(job => ({ ...job, nextAttemptAt: schedule.at, updatedAt: now })),
+    );
+  });
+  notify();
+  // Re-arms the timer for the new time, or delivers straight away if it has passed
+  return processOutbox();
+};
+
+/** Cancels every recipient of a message nobody has been sent yet. */
+export const cancelWaitingMessage = async (id: string) => {
+  await afterRuns(async () => {
+    const { jobs } = await loadAwaitingDispatch(id);
+    const now = Date.now();
+    await store.putJobs(
+      jobs
+        .filter(job => job.state === "pending")
+        .map<OutboxJob>(job => ({ ...job, state: "cancelled", updatedAt: now })),
+    );
+  });
+  notify();
+};
+
+const settle = (job: OutboxJob, failure: { reason: string; transient: boolean } | null, now: number): OutboxJob => {
+  if (!failure) {
+    return { ...job, state: "sent", lastError: undefined, updatedAt: now };
+  }
+  const retry = failure.transient && job.attempts < job.maxAttempts;
+  return {
+    ...job,
+    state: retry ? "pending" : "failed",
+    lastError: failure.reason,
+    nextAttemptAt: retry ? now + backoffDelay(job.attempts) : job.nextAttemptAt,
+    updatedAt: now,
+  };
+};
+
+const deliverDueJobs = async (mailTransport: MailTransport, messageId: string) => {
+  // Re-read so jobs cancelled since the run started are left alone
+  const now = Date.now();
+  const due = (await store.getJobsForMessage(messageId)).filter(
+    job => job.state === "pending" && job.nextAttemptAt <= now,
+  );
+  if (due.length === 0) return;
+
+  const stored = await store.getMessage(messageId);
+  if (!stored) {
+    await store.putJobs(due.map(job => settle(job, { reason: "Message is no longer in the outbox", transient: false }, now)));
+    notify();
+    return;
+  }
+
+  const jobsByAddress = new Map(due.map(job => [job.address, job]));
+  const writes: Promise<void>[] = [];
+  const write = (jobs: OutboxJob[]) => {
+    writes.push(store.putJobs(jobs).then(notify));
+  };
+
+  // Jobs are written back as each transport call starts and settles, so
+  // progress shows while a large list is still going out
+  const settleChunk = ({ sent, failed }: DeliverySummary) => {
+    // Mailboxes the server says don't exist go on the suppression list so they aren't tried again.
+    // A failed call's error is about the sender or the connection, not each address it was sent to.
+    failed
+      .filter(({ reason, transient, refused }) => refused && !transient && isHardBounce(reason))
+      .forEach(({ address, reason }) => writes.push(suppressAddresses([address], "bounced", reason).then(() => undefined)));
+
+    const settledAt = Date.now();
+    const settled = [
+      ...sent.map(address => [address, null] as const),
+      ...failed.map(failure => [failure.address, failure] as const),
+    ].flatMap(([address, failure]) => {
+      const job = jobsByAddress.get(address);
+      if (!job) return [];
+      const next = settle(job, failure, settledAt);
+      jobsByAddress.set(address, next);
+      return [next];
+    });
+    write(settled);
+  };
+
+  await deliverMessage(
+    mailTransport,
+    filterRecipients(stored.message, recipient => jobsByAddress.has(recipient.address)),
+    {
+      mode: stored.sendMode,
+      throttle,
+      beforeSend: async to => {
+        const [current, suppressionFor] = await Promise.all([
+          store.getJobs(to.map(recipient => jobsByAddress.get(recipient.address)!.id)),
+          loadSuppressionMatcher(),
+        ]);
+        const stillPending = new Set(current.filter(job => job.state === "pending").map(job => job.address));
+        // Someone may have unsubscribed since the message was queued, e.g. while it waited for its send time
+        const suppressed = to.filter(recipient => stillPending.has(recipient.address) && suppressionFor(recipient.address));
+        if (suppressed.length > 0) {
+          const cancelledAt = Date.now();
+          write(suppressed.map(({ address }) => {
+            const job = jobsByAddress.get(address)!;
+            const next: OutboxJob = { ...job, state: "cancelled", lastError: suppressionReason(suppressionFor(address)!), updatedAt: cancelledAt };
+            jobsByAddress.set(address, next);
+            return next;
+          }));
+        }
+        return to.filter(recipient => stillPending.has(recipient.address) && !suppressionFor(recipient.address));
+      },
+      onStatus: (addresses, state) => {
+        if (state !== "sending") return;
+        write(addresses.map(address => {
+          const job = jobsByAddress.get(address)!;
+          const next: OutboxJob = { ...job, state: "sending", attempts: job.attempts + 1, updatedAt: Date.now() };
+          jobsByAddress.set(address, next);
+          return next;
+        }));
+      },
+      onProgress: settleChunk,
+    },
+  );
+
+  // A call can succeed without naming every recipient it carried
+  const unreported = [...jobsByAddress.values()].filter(job => job.state === "sending");
+  if (unreported.length > 0) {
+    const settledAt = Date.now();
+    write(unreported.map(job =>
+      settle(job, { reason: "The mail server reported no result for this recipient", transient: false }, settledAt),
+    ));
+  }
+  await Promise.all(writes);
+};
+
+const scheduleNextRun = async () => {
+  clearTimeout(timer);
+  if (!transport) return;
+
+  const next = (await store.getAllJobs())
+    .filter(job => job.state === "pending")
+    .reduce((earliest, job) => Math.min(earliest, job.nextAttemptAt), Infinity);
+  if (next === Infinity) return;
+
+  // setTimeout overflows past ~24.8 days
+  const delay = Math.min(Math.max(next - Date.now(), 0), 2 ** 31 - 1);
+  timer = setTimeout(() => void processOutbox(), delay);
+};
+
+const processDueJobs = async () => {
+  const mailTransport = transport;
+  if (!mailTransport) return;
+
+  const now = Date.now();
+  const dueMessageIds = new Set(
+    (await store.getAllJobs())
+      .filter(job => job.state === "pending" && job.nextAttemptAt <= now)
+      .map(job => job.messageId),
+  );
+  for (const messageId of dueMessageIds) {
+    await deliverDueJobs(mailTransport, messageId);
+  }
+  await scheduleNextRun();
+};
+
+/**
+ * Delivers every job that is due, in whichever tab delivers. Resolves once
+ * this run, and any run before it, has finished.
+ */
+export const processOutbox = () => {
+  if (isDeliveringTab || !channel) return enqueueRun(processDueJobs);
+  const id = crypto.randomUUID();
+  signalTabs({ type: "process", id });
+  return new Promise<void>(resolve => requestedRuns.set(id, resolve));
+};
+
+const finishRequestedRuns = (id?: string) => {
+  for (const [requested, resolve] of requestedRuns) {
+    if (id === undefined || requested === id) {
+      requestedRuns.delete(requested);
+      resolve();
+    }
+  }
+};
+
+const handleSignal = ({ data }: MessageEvent<OutboxSignal>) => {
+  if (data.type === "changed") {
+    notifyListeners();
+  } else if (data.type === "process") {
+    if (!isDeliveringTab) return;
+    void processOutbox().then(() => signalTabs({ type: "processed", id: data.id }));
+  } else {
+    finishRequestedRuns(data.id);
+  }
+};
+
+// Runs asked of a tab that closed are lost with it, so the tab taking over answers them all once it has caught up
+const startDelivering = () => {
+  isDeliveringTab = true;
+  void enqueueRun(resetInterruptedJobs);
+  void processOutbox().then(() => {
+    finishRequestedRuns();
+    signalTabs({ type: "processed" });
+  });
+};
+
+export const retryJobs = async (ids: string[]) => {
+  const wanted = new Set(ids);
+  const now = Date.now();
+  const jobs = (await store.getAllJobs())
+    .filter(job => wanted.has(job.id) && job.state !== "sending" && job.state !== "sent")
+    .map<OutboxJob>(job => ({
+      ...job,
+      state: "pending",
+      nextAttemptAt: now,
+      // A manual retry earns a fresh round of automatic attempts
+      maxAttempts: job.attempts + RETRY_POLICY.maxAttempts,
+      updatedAt: now,
+    }));
+  await store.putJobs(jobs);
+  notify();
+  return processOutbox();
+};
+
+export const cancelJobs = async (ids: string[]) => {
+  const wanted = new Set(ids);
+  const now = Date.now();
+  const jobs = (await store.getAllJobs())
+    .filter(job => wanted.has(job.id) && (job.state === "pending" || job.state === "failed"))
+    .map<OutboxJob>(job => ({ ...job, state: "cancelled", updatedAt: now }));
+  await store.putJobs(jobs);
+  notify();
+};
+
+/** Removes sent and cancelled jobs, and messages left without any job. */
+export const clearFinishedJobs = async () => {
+  const jobs = await store.getAllJobs();
+  const finished = jobs.filter(job => job.state === "sent" || job.state === "cancelled");
+  const remainingMessageIds = new Set(
+    jobs.filter(job => job.state !== "sent" && job.state !== "cancelled").map(job => job.messageId),
+  );
+  const messageIds = (await store.getAllMessages())
+    .map(message => message.id)
+    .filter(id => !remainingMessageIds.has(id));
+  await store.deleteJobsAndMessages(finished.map(job => job.id), messageIds);
+  notify();
+};
+
+// Jobs left "sending" by a tab that closed mid-send never got a result. Only the delivering tab
+// sends, so once this one holds the lock, nobody else is still working on them.
+const resetInterruptedJobs = async () => {
+  const now = Date.now();
+  const interrupted = (await store.getAllJobs())
+    .filter(job => job.state === "sending")
+    .map<OutboxJob>(job => ({ ...job, state: "pending", nextAttemptAt: now, updatedAt: now }));
+  if (interrupted.length > 0) {
+    await store.putJobs(interrupted);
+    notify();
+  }
+};
+
+/**
+ * Starts delivering outbox jobs through `mailTransport`, paced by `sendThrottle`,
+ * now and whenever retries or scheduled messages fall due, or the browser comes back online. Returns
+ * a function that stops it.
+ */
+export const startOutbox = (mailTransport: MailTransport, sendThrottle?: Throttle) => {
+  transport = mailTransport;
+  throttle = sendThrottle;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.addEventListener("message", handleSignal);
+
+  const lockRequest = new AbortController();
+  let releaseLock = () => {};
+  if (navigator.locks) {
+    navigator.locks
+      .request(DELIVERY_LOCK, { signal: lockRequest.signal }, () => {
+        startDelivering();
+        return new Promise<void>(resolve => {
+          releaseLock = resolve;
+        });
+      })
+      // Stopped while still waiting for the lock
+      .catch(() => undefined);
+  } else {
+    startDelivering();
+  }
+
+  const handleOnline = () => void processOutbox();
+  window.addEventListener("online", handleOnline);
+  // Browsers hold back timers in background tabs, so catch up on anything due on return
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") void processOutbox();
+  };
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  return () => {
+    transport = null;
+    throttle = undefined;
+    clearTimeout(timer);
+    isDeliveringTab = false;
+    lockRequest.abort();
+    releaseLock();
+    channel?.close();
+    channel = null;
+    window.removeEventListener("online", handleOnline);
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+  };
+};
@@ -0,0 +1,55 @@
+import { requestToPromise, withTransaction } from "@/lib/db";
+import type { OutboxJob, OutboxMessage } from "./types";
+
+export const saveMessageWithJobs = (message: OutboxMessage, jobs: OutboxJob[]) =>
+  withTransaction(["outboxMessages", "outboxJobs"], "readwrite", transaction => {
+    transaction.objectStore("outboxMessages").put(message);
+    const jobStore = transaction.objectStore("outboxJobs");
+    jobs.forEach(job => jobStore.put(job));
+  });
+
+export const putMessage = (message: OutboxMessage) =>
+  withTransaction("outboxMessages", "readwrite", transaction => {
+    transaction.objectStore("outboxMessages").put(message);
+  });
+
+export const getMessage = (id: string) =>
+  withTransaction("outboxMessages", "readonly", transaction =>
+    requestToPromise<OutboxMessage | undefined>(transaction.objectStore("outboxMessages").get(id)),
+  );
+
+export const getAllMessages = () =>
+  withTransaction("outboxMessages", "readonly", transaction =>
+    requestToPromise<OutboxMessage[]>(transaction.objectStore("outboxMessages").getAll()),
+  );
+
+export const getAllJobs = () =>
+  withTransaction("outboxJobs", "readonly", transaction =>
+    requestToPromise<OutboxJob[]>(transaction.objectStore("outboxJobs").getAll()),
+  );
+
+export const getJobsForMessage = (messageId: string) =>
+  withTransaction("outboxJobs", "readonly", transaction =>
+    requestToPromise<OutboxJob[]>(transaction.objectStore("outboxJobs").index("messageId").getAll(messageId)),
+  );
+
+export const getJobs = (ids: string[]) =>
+  withTransaction("outboxJobs", "readonly", async transaction => {
+    const store = transaction.objectStore("outboxJobs");
+    const jobs = await Promise.all(ids.map(id => requestToPromise<OutboxJob | undefined>(store.get(id))));
+    return jobs.filter((job): job is OutboxJob => job !== undefined);
+  });
+
+export const putJobs = (jobs: OutboxJob[]) =>
+  withTransaction("outboxJobs", "readwrite", transaction => {
+    const store = transaction.objectStore("outboxJobs");
+    jobs.forEach(job => store.put(job));
+  });
+
+export const deleteJobsAndMessages = (jobIds: string[], messageIds: string[]) =>
+  withTransaction(["outboxMessages", "outboxJobs"], "readwrite", transaction => {
+    const jobStore = transaction.objectStore("outboxJobs");
+    jobIds.forEach(id => jobStore.delete(id));
+    const messageStore = transaction.objectStore("outboxMessages");
+    messageIds.forEach(id => messageStore.delete(id));
+  });
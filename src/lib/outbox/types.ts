@@ -0,0 +1,40 @@
+import type { MailMessage, SendMode } from "@/lib/mail";
+
+/** When a "send later" message should go out. */
+export interface SendSchedule {
+  /** Epoch milliseconds. */
+  at: number;
+  /** The IANA time zone the time was picked in. */
+  timeZone: string;
+}
+
+/** A composed message kept in the outbox, attachments included, until it is cleared. */
+export interface OutboxMessage {
+  id: string;
+  message: MailMessage;
+  /** Missing on messages stored before send modes existed, which went out as "fields". */
+  sendMode?: SendMode;
+  createdAt: number;
+  /** Set for a "send later" message: when its jobs first fall due, in epoch milliseconds. */
+  scheduledAt?: number;
+  /** The IANA time zone the send time was picked in, for showing it back. */
+  timeZone?: string;
+}
+
+export type OutboxJobState = "pending" | "sending" | "sent" | "failed" | "cancelled";
+
+/** Delivery of one outbox message to one recipient. */
+export interface OutboxJob {
+  id: string;
+  messageId: string;
+  address: string;
+  state: OutboxJobState;
+  attempts: number;
+  /** Automatic retries stop once `attempts` reaches this. */
+  maxAttempts: number;
+  /** When a pending job becomes due, in epoch milliseconds. */
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,45 @@
+import { parseLdif } from "./ldif";
+import type { SheetGrid, WorkbookSheet } from "./spreadsheet";
+import { parseVCards } from "./vcard";
+
+/** A contact read from an address book export. */
+export interface ContactCard {
+  name: string;
+  /** Every address of the contact, preferred first. */
+  emails: string[];
+  fields: Record<string, string>;
+}
+
+const parsers: Record<string, (text: string) => ContactCard[]> = {
+  vcf: parseVCards,
+  vcard: parseVCards,
+  ldif: parseLdif,
+  ldi: parseLdif,
+};
+
+const extensionOf = (fileName: string) => fileName.slice(fileName.lastIndexOf(".") + 1).toLowerCase();
+
+/** Whether `fileName` is an address book export rather than a spreadsheet. */
+export const isContactFile = (fileName: string) =>
+  // Not `in`, which also finds inherited keys such as "constructor"
+  fileName.includes(".") && Object.prototype.hasOwnProperty.call(parsers, extensionOf(fileName));
+
+// One row per address, so a contact with a work and a home address can be imported under either
+const contactsToGrid = (contacts: ContactCard[]): SheetGrid => {
+  const fieldNames = [...new Set(contacts.flatMap(contact => Object.keys(contact.fields)))];
+  return [
+    ["Name", "Email", ...fieldNames],
+    ...contacts.flatMap(({ name, emails, fields }) =>
+      (emails.length > 0 ? emails : [""]).map(email => [name, email, ...fieldNames.map(field => fields[field] ?? "")]),
+    ),
+  ];
+};
+
+/**
+ * Reads a vCard or LDIF file as a single sheet with Name and Email columns,
+ * so it goes through the same import wizard as a spreadsheet.
+ */
+export const readContactSheets = (text: string, fileName: string): WorkbookSheet[] => {
+  const contacts = parsers[extensionOf(fileName)](text);
+  return [{ name: "Contacts", grid: contacts.length > 0 ? contactsToGrid(contacts) : [] }];
+};
@@ -0,0 +1,100 @@
+import * as XLSX from "xlsx";
+import type { DeliveryStatusMap, RecipientRole } from "@/lib/mail";
+import { suppressionReason, type SuppressionMatcher } from "./suppressions";
+import type { Recipient, RecipientSource } from "./types";
+
+export type RecipientExportFormat = "csv" | "xlsx";
+
+export interface RecipientExportOptions {
+  deliveryStatus?: DeliveryStatusMap;
+  /** To, CC or BCC per address, exported as a Role column when given. */
+  recipientRoles?: Record<string, RecipientRole>;
+  /** Finds addresses on the suppression list, exported with why they won't be sent to. */
+  suppressionFor?: SuppressionMatcher;
+}
+
+const mimeTypes: Record<RecipientExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const sourceLabel = (source: RecipientSource) => {
+  switch (source.kind) {
+    case "manual":
+      return "Added by hand";
+    case "paste":
+      return "Pasted";
+    case "import":
+      return `Imported from ${source.fileName}`;
+  }
+};
+
+const FIXED_COLUMNS = new Set(["email", "name", "role", "status", "attempts", "status detail", "source", "added"]);
+
+// A field named like one of the fixed columns would make its header ambiguous
+const fieldHeader = (field: string) => (FIXED_COLUMNS.has(field.trim().toLowerCase()) ? `Field: ${field}` : field);
+
+// Spreadsheet apps run a CSV cell starting with one of these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export const escapeFormula = (cell: string | number) =>
+  typeof cell === "string" && FORMULA_START.test(cell) ? `'${cell}` : cell;
+
+// One row per recipient with their custom fields as columns, in the order the
+// fields were first seen, so the sheet can be imported again as is
+const recipientsToGrid = (
+  recipients: Recipient[],
+  { deliveryStatus = {}, recipientRoles, suppressionFor = () => undefined }: RecipientExportOptions,
+) => {
+  const fieldNames = [...new Set(recipients.flatMap(recipient => Object.keys(recipient.fields)))];
+  return [
+    [
+      "Email",
+      "Name",
+      ...fieldNames.map(fieldHeader),
+      ...(recipientRoles ? ["Role"] : []),
+      "Status",
+      "Attempts",
+      "Status Detail",
+      "Source",
+      "Added",
+    ],
+    ...recipients.map(({ email, name, fields, source, addedAt }) => {
+      const status = deliveryStatus[email];
+      const suppression = suppressionFor(email);
+      return [
+        email,
+        name ?? "",
+        ...fieldNames.map(field => fields[field] ?? ""),
+        ...(recipientRoles ? [(recipientRoles[email] ?? "to").toUpperCase()] : []),
+        status?.state ?? (suppression ? "suppressed" : ""),
+        status?.attempts ?? "",
+        status?.reason ?? (suppression ? suppressionReason(suppression) : ""),
+        sourceLabel(source),
+        new Date(addedAt).toISOString(),
+      ];
+    }),
+  ];
+};
+
+/**
+ * Writes the recipients, with their names, custom fields and delivery status,
+ * as a CSV or Excel file for the browser to download.
+ */
+export const exportRecipients = (
+  recipients: Recipient[],
+  format: RecipientExportFormat,
+  options: RecipientExportOptions = {},
+): { content: BlobPart; type: string } => {
+  const grid = recipientsToGrid(recipients, options);
+  if (format === "csv") {
+    const sheet = XLSX.utils.aoa_to_sheet(grid.map(row => row.map(escapeFormula)));
+    return { content: XLSX.utils.sheet_to_csv(sheet), type: mimeTypes.csv };
+  }
+
+  // Excel keeps text cells as text, so they need no escaping
+  const sheet = XLSX.utils.aoa_to_sheet(grid);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Recipients");
+  return { content: XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer, type: mimeTypes.xlsx };
+};
@@ -0,0 +1,69 @@
+export * from "./types";
+export { isContactFile, readContactSheets, type ContactCard } from "./contacts";
+export {
+  exportRecipients,
+  type RecipientExportFormat,
+  type RecipientExportOptions,
+} from "./export";
+export { getAllLists, getList } from "./list-store";
+export {
+  createList,
+  deleteList,
+  intersectLists,
+  intersectRecipients,
+  mergeLists,
+  mergeRecipients,
+  renameList,
+  subscribeToLists,
+} from "./lists";
+export {
+  alreadyListedReason,
+  canonicalEmail,
+  indexAddresses,
+  normalizeEmail,
+  type NormalizeOptions,
+} from "./normalize";
+export {
+  recipientWarnings,
+  type RecipientWarning,
+  type RecipientWarningKind,
+} from "./warnings";
+export { getAllSuppressions } from "./suppression-store";
+export {
+  blockAddressOrDomain,
+  createSuppressionMatcher,
+  isHardBounce,
+  loadSuppressionMatcher,
+  removeSuppression,
+  subscribeToSuppressions,
+  suppressAddresses,
+  suppressionReason,
+  type SuppressionMatcher,
+} from "./suppressions";
+export { startUnsubscribeSync, syncUnsubscribes } from "./unsubscribes";
+export { mergeValuesFor, missingMergeFields } from "./merge";
+export { parsePastedAddresses, type PastedAddress } from "./paste";
+export { createRecipient, toMailAddress } from "./recipient";
+export {
+  columnLetter,
+  columnNames,
+  guessColumnMapping,
+  importRowToRecipient,
+  readImportRows,
+  readSheets,
+  rejectedRowsReport,
+  reviewImportRows,
+  type ColumnMapping,
+  type ImportRow,
+  type ImportRowReview,
+  type ImportRowStatus,
+  type SheetGrid,
+  type SpreadsheetImport,
+  type WorkbookSheet,
+} from "./spreadsheet";
+export {
+  readWorkbookFile,
+  type ReadWorkbookOptions,
+  type WorkbookReadProgress,
+  type WorkbookReadStage,
+} from "./workbook-reader";
@@ -0,0 +1,59 @@
+import type { ContactCard } from "./contacts";
+
+// Thunderbird keeps a contact's second address in its own attribute
+const EMAIL_ATTRIBUTES = ["mail", "mozillasecondemail"];
+
+const decodeBase64 = (value: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(value.replace(/\s/g, "")), char => char.charCodeAt(0)));
+
+// `attr: value`, `attr:: base64` or `attr:< url`; options such as `cn;lang-en` are dropped
+const parseLine = (line: string): [string, string] | null => {
+  const match = /^([A-Za-z0-9][A-Za-z0-9-]*)(?:;[^:]*)?:(:|<)?\s*(.*)$/.exec(line);
+  if (!match) return null;
+  const [, attribute, kind, value] = match;
+  if (kind === "<") return null;
+  return [attribute.toLowerCase(), kind === ":" ? decodeBase64(value) : value];
+};
+
+const toContact = (entry: [string, string][]): ContactCard => {
+  const first = (attribute: string) => entry.find(([name]) => name === attribute)?.[1].trim() ?? "";
+
+  const fullName = [first("givenname"), first("sn")].filter(Boolean).join(" ");
+  const fields = Object.fromEntries(
+    [["Organization", first("o")], ["Title", first("title")], ["Phone", first("telephonenumber")]]
+      .filter(([, value]) => value !== ""),
+  );
+
+  return {
+    name: first("displayname") || first("cn") || fullName,
+    emails: EMAIL_ATTRIBUTES.flatMap(attribute =>
+      entry.filter(([name, value]) => name === attribute && value.trim()).map(([, value]) => value.trim()),
+    ),
+    fields,
+  };
+};
+
+/** Reads every entry of an LDIF directory export. */
+export const parseLdif = (text: string): ContactCard[] => {
+  // Continuation lines start with a single space, which is not part of the value
+  const lines = text.replace(/\r\n|\r/g, "\n").replace(/\n /g, "").split("\n");
+
+  const contacts: ContactCard[] = [];
+  let entry: [string, string][] = [];
+  const flush = () => {
+    // Only entries with a dn are directory records; the file may start with a version line
+    if (entry.some(([name]) => name === "dn")) contacts.push(toContact(entry));
+    entry = [];
+  };
+
+  for (const line of lines) {
+    if (line.trim() === "") flush();
+    else if (!line.startsWith("#")) {
+      const attribute = parseLine(line);
+      if (attribute) entry.push(attribute);
+    }
+  }
+  flush();
+
+  return contacts;
+};
@@ -0,0 +1,22 @@
+import { requestToPromise, withTransaction } from "@/lib/db";
+import type { RecipientList } from "./types";
+
+export const putList = (list: RecipientList) =>
+  withTransaction("recipientLists", "readwrite", transaction => {
+    transaction.objectStore("recipientLists").put(list);
+  });
+
+export const getList = (id: string) =>
+  withTransaction("recipientLists", "readonly", transaction =>
+    requestToPromise<RecipientList | undefined>(transaction.objectStore("recipientLists").get(id)),
+  );
+
+export const getAllLists = () =>
+  withTransaction("recipientLists", "readonly", transaction =>
+    requestToPromise<RecipientList[]>(transaction.objectStore("recipientLists").getAll()),
+  );
+
+export const deleteListRecord = (id: string) =>
+  withTransaction("recipientLists", "readwrite", transaction => {
+    transaction.objectStore("recipientLists").delete(id);
+  });
@@ -0,0 +1,88 @@
+import { deleteListRecord, getAllLists, getList, putList } from "./list-store";
+import { canonicalEmail, type NormalizeOptions } from "./normalize";
+import type { Recipient, RecipientList } from "./types";
+
+const listeners = new Set<() => void>();
+
+export const subscribeToLists = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Names are how people tell lists apart, so two lists can't share one
+const checkName = async (name: string, id?: string) => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Give the list a name");
+  const lists = await getAllLists();
+  const taken = lists.find(list => list.id !== id && list.name.toLowerCase() === trimmed.toLowerCase());
+  if (taken) throw new Error(`There is already a list called "${taken.name}"`);
+  return trimmed;
+};
+
+const loadList = async (id: string) => {
+  const list = await getList(id);
+  if (!list) throw new Error("The list has been deleted");
+  return list;
+};
+
+/** Saves `recipients` as a new list and resolves with it. */
+export const createList = async (name: string, recipients: Recipient[]) => {
+  const now = Date.now();
+  const list: RecipientList = { id: crypto.randomUUID(), name: await checkName(name), recipients, createdAt: now, updatedAt: now };
+  await putList(list);
+  notify();
+  return list;
+};
+
+export const renameList = async (id: string, name: string) => {
+  const list = await loadList(id);
+  await putList({ ...list, name: await checkName(name, id), updatedAt: Date.now() });
+  notify();
+};
+
+export const deleteList = async (id: string) => {
+  await deleteListRecord(id);
+  notify();
+};
+
+/** Everyone on any of `lists`, in list order; the first entry for an address wins. */
+export const mergeRecipients = (lists: RecipientList[], options: NormalizeOptions = {}) => {
+  const byAddress = new Map<string, Recipient>();
+  for (const recipient of lists.flatMap(list => list.recipients)) {
+    const key = canonicalEmail(recipient.email, options);
+    if (!byAddress.has(key)) byAddress.set(key, recipient);
+  }
+  return [...byAddress.values()];
+};
+
+/** Everyone on all of `lists`, as they appear on the first. */
+export const intersectRecipients = ([first, ...rest]: RecipientList[], options: NormalizeOptions = {}) => {
+  if (!first) return [];
+  const others = rest.map(list => new Set(list.recipients.map(recipient => canonicalEmail(recipient.email, options))));
+  return mergeRecipients([first], options).filter(recipient => {
+    const key = canonicalEmail(recipient.email, options);
+    return others.every(addresses => addresses.has(key));
+  });
+};
+
+const combineLists = async (
+  name: string,
+  ids: string[],
+  combine: (lists: RecipientList[], options: NormalizeOptions) => Recipient[],
+  options: NormalizeOptions,
+) => {
+  const lists = await Promise.all(ids.map(loadList));
+  return createList(name, combine(lists, options));
+};
+
+/** Saves everyone on any of the lists as a new list. */
+export const mergeLists = (name: string, ids: string[], options: NormalizeOptions = {}) =>
+  combineLists(name, ids, mergeRecipients, options);
+
+/** Saves everyone on all of the lists as a new list. */
+export const intersectLists = (name: string, ids: string[], options: NormalizeOptions = {}) =>
+  combineLists(name, ids, intersectRecipients, options);
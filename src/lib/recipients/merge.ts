@@ -0,0 +1,29 @@
+import { lookupMergeValue, mergeFieldKey, parseTemplate, type MergeValues } from "@/lib/mail";
+import type { Recipient } from "./types";
+
+/** What a recipient's placeholders are filled in from: their address, name and fields. */
+export const mergeValuesFor = ({ email, name, fields }: Recipient): MergeValues => ({
+  email,
+  ...(name ? { name } : {}),
+  ...fields,
+});
+
+/**
+ * The recipients who have no value for a placeholder in `templates` that has
+ * no default, with the fields each of them is missing.
+ */
+export const missingMergeFields = (templates: string[], recipients: Recipient[]) => {
+  const required = new Map<string, string>();
+  for (const { field, fallback } of templates.flatMap(template => parseTemplate(template).placeholders)) {
+    const key = mergeFieldKey(field);
+    if (fallback === undefined && !required.has(key)) required.set(key, field.trim());
+  }
+  if (required.size === 0) return [];
+
+  return recipients
+    .map(recipient => {
+      const values = mergeValuesFor(recipient);
+      return { email: recipient.email, fields: [...required.values()].filter(field => lookupMergeValue(values, field) === undefined) };
+    })
+    .filter(({ fields }) => fields.length > 0);
+};
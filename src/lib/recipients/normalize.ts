@@ -0,0 +1,80 @@
+import { toAsciiDomain } from "@/lib/mail";
+
+export interface NormalizeOptions {
+  /**
+   * Also treat the aliases some providers deliver to the same mailbox as one
+   * address, e.g. Gmail ignores dots and anything after a +.
+   */
+  foldProviderAliases?: boolean;
+}
+
+interface ProviderRule {
+  /** Dots in the part before the @ are ignored. */
+  ignoresDots: boolean;
+  /** The domain the provider's other domains are aliases of. */
+  domain?: string;
+}
+
+// Every one of these ignores a +tag; only Google also ignores dots
+const PROVIDER_RULES: Record<string, ProviderRule> = {
+  "gmail.com": { ignoresDots: true },
+  "googlemail.com": { ignoresDots: true, domain: "gmail.com" },
+  "outlook.com": { ignoresDots: false },
+  "hotmail.com": { ignoresDots: false },
+  "live.com": { ignoresDots: false },
+  "icloud.com": { ignoresDots: false },
+  "fastmail.com": { ignoresDots: false },
+  "proton.me": { ignoresDots: false },
+  "protonmail.com": { ignoresDots: false },
+};
+
+const splitAddress = (email: string) => {
+  const at = email.lastIndexOf("@");
+  return at === -1 ? null : { local: email.slice(0, at), domain: email.slice(at + 1) };
+};
+
+/**
+ * The form addresses are stored in: trimmed, with the domain lowercased.
+ * The part before the @ is kept as typed, since that is how people expect to
+ * see their own address.
+ */
+export const normalizeEmail = (email: string) => {
+  const trimmed = email.trim();
+  const parts = splitAddress(trimmed);
+  return parts ? `${parts.local}@${parts.domain.toLowerCase()}` : trimmed;
+};
+
+/**
+ * The key that two addresses reaching the same mailbox share, for finding
+ * duplicates. RFC 5321 lets the part before the @ be case-sensitive, but no
+ * mainstream provider treats it that way, so it is lowercased too.
+ */
+export const canonicalEmail = (email: string, { foldProviderAliases = false }: NormalizeOptions = {}) => {
+  const parts = splitAddress(email.trim().toLowerCase());
+  if (!parts) return email.trim().toLowerCase();
+
+  let { local, domain } = parts;
+  domain = toAsciiDomain(domain) ?? domain;
+  const rule = foldProviderAliases ? PROVIDER_RULES[domain] : undefined;
+  if (rule) {
+    const plus = local.indexOf("+");
+    if (plus > 0) local = local.slice(0, plus);
+    if (rule.ignoresDots) local = local.replace(/\./g, "");
+    domain = rule.domain ?? domain;
+  }
+  return `${local}@${domain}`;
+};
+
+/** Maps the canonical form of each address to the first of `emails` with it. */
+export const indexAddresses = (emails: string[], options: NormalizeOptions = {}) => {
+  const index = new Map<string, string>();
+  for (const email of emails) {
+    const key = canonicalEmail(email, options);
+    if (!index.has(key)) index.set(key, email);
+  }
+  return index;
+};
+
+/** Why an address that collapsed into one already on the list is left out. */
+export const alreadyListedReason = (email: string, listed: string) =>
+  email === listed ? "Already on the recipients list" : `Same address as ${listed}, already on the recipients list`;
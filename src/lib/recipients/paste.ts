@@ -0,0 +1,131 @@
+import { validateAddress } from "@/lib/mail";
+import { alreadyListedReason, canonicalEmail, normalizeEmail, type NormalizeOptions } from "./normalize";
+import type { ImportRowStatus } from "./spreadsheet";
+import { suppressionReason, type SuppressionMatcher } from "./suppressions";
+
+/** One address found in pasted text, with whether it can be added. */
+export interface PastedAddress {
+  /** The text it was read from, as pasted. */
+  text: string;
+  email: string;
+  name?: string;
+  status: ImportRowStatus;
+  /** Why it will not be added; unset for new addresses. */
+  reason?: string;
+}
+
+const ANGLE_ADDRESS = /^(.*?)<([^<>]*)>\s*$/s;
+const COMMENT_NAME = /^(\S+@\S+)\s*\((.*)\)$/;
+
+const unquote = (text: string) => {
+  const trimmed = text.trim();
+  const quoted = /^(["'])(.*)\1$/s.exec(trimmed);
+  return (quoted ? quoted[2].replace(/\\(.)/g, "$1") : trimmed).trim();
+};
+
+const cleanEmail = (text: string) => unquote(text).replace(/^mailto:/i, "").trim();
+
+// Splits a header-style list on commas, semicolons and line breaks, except inside quotes or <...>
+const splitAddressList = (text: string) => {
+  const tokens: string[] = [];
+  let current = "";
+  let quoted = false;
+  let angled = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\" && quoted) {
+      current += char + (text[i + 1] ?? "");
+      i++;
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    else if (char === "<" && !quoted) angled = true;
+    else if (char === ">" && !quoted) angled = false;
+    else if (/[,;\n]/.test(char) && !quoted && !angled) {
+      tokens.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  tokens.push(current);
+  return tokens.map(token => token.trim()).filter(Boolean);
+};
+
+// Reads `Name <email>`, `email (Name)`, a bare address, or words and addresses separated by spaces
+const readToken = (token: string): { text: string; email: string; name?: string }[] => {
+  const angle = ANGLE_ADDRESS.exec(token);
+  if (angle) return [{ text: token, email: cleanEmail(angle[2]), name: unquote(angle[1]) || undefined }];
+
+  const comment = COMMENT_NAME.exec(token);
+  if (comment) return [{ text: token, email: cleanEmail(comment[1]), name: comment[2].trim() || undefined }];
+
+  const words = token.split(/\s+/);
+  const addresses = words.filter(word => word.includes("@"));
+  if (addresses.length === 0 || words.length === 1) return [{ text: token, email: cleanEmail(token) }];
+  if (addresses.length > 1) return addresses.map(word => ({ text: word, email: cleanEmail(word) }));
+
+  const name = words.filter(word => !word.includes("@")).join(" ");
+  return [{ text: token, email: cleanEmail(addresses[0]), name: unquote(name) || undefined }];
+};
+
+// A line copied from a spreadsheet has tab-separated cells; the address cells are recipients
+// and, when there is only one, the first other cell is taken as the name
+const readSpreadsheetLine = (line: string) => {
+  const cells = line.split("\t").map(cell => cell.trim()).filter(Boolean);
+  const addresses = cells.filter(cell => cell.includes("@"));
+  if (addresses.length !== 1) return addresses.flatMap(readToken);
+  const [address] = readToken(addresses[0]);
+  const name = cells.find(cell => !cell.includes("@"));
+  return [{ ...address, text: line.trim(), name: address.name ?? (name ? unquote(name) : undefined) }];
+};
+
+/**
+ * Reads addresses from text copied out of a mail client's To/CC fields or a
+ * spreadsheet, e.g. `Jane Doe <jane@x.com>; bob@y.org, "Smith, Al" <al@z.io>`.
+ * Addresses already on the list or pasted twice are duplicates; `existing`
+ * maps canonical addresses to listed ones, see `indexAddresses`. Addresses on
+ * the suppression list are rejected.
+ */
+export const parsePastedAddresses = (
+  text: string,
+  existing: Map<string, string>,
+  options: NormalizeOptions = {},
+  suppressionFor: SuppressionMatcher = () => undefined,
+): PastedAddress[] => {
+  // Quoted names may span a line break, so runs of list lines are split together
+  const tokens: { text: string; email: string; name?: string }[] = [];
+  let list: string[] = [];
+  const flushList = () => {
+    tokens.push(...splitAddressList(list.join("\n")).flatMap(readToken));
+    list = [];
+  };
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.includes("\t")) list.push(line);
+    else {
+      flushList();
+      tokens.push(...readSpreadsheetLine(line));
+    }
+  }
+  flushList();
+
+  const seen = new Map<string, string>();
+  return tokens.map(({ text: tokenText, email, name }): PastedAddress => {
+    const address = normalizeEmail(email);
+    const base = { text: tokenText, email: address, name };
+    const validation = validateAddress(address);
+    if (!validation.valid) return { ...base, status: "invalid", reason: validation.reason };
+    const suppression = suppressionFor(address);
+    if (suppression) return { ...base, status: "suppressed", reason: suppressionReason(suppression) };
+
+    const key = canonicalEmail(address, options);
+    const listed = existing.get(key);
+    if (listed !== undefined) return { ...base, status: "duplicate", reason: alreadyListedReason(address, listed) };
+    const first = seen.get(key);
+    if (first !== undefined) {
+      return { ...base, status: "duplicate", reason: first === address ? "Pasted more than once" : `Same address as ${first}` };
+    }
+    seen.set(key, address);
+    return { ...base, status: "new" };
+  });
+};
@@ -0,0 +1,16 @@
+import type { MailAddress } from "@/lib/mail";
+import type { Recipient, RecipientSource } from "./types";
+
+export const createRecipient = (
+  email: string,
+  source: RecipientSource,
+  { name, fields = {} }: { name?: string; fields?: Record<string, string> } = {},
+): Recipient => ({
+  email,
+  name: name?.trim() || undefined,
+  fields,
+  source,
+  addedAt: Date.now(),
+});
+
+export const toMailAddress = ({ email, name }: Recipient): MailAddress => ({ address: email, name });
@@ -0,0 +1,221 @@
+import * as XLSX from "xlsx";
+import { isValidAddress, validateAddress } from "@/lib/mail";
+import { escapeFormula } from "./export";
+import { alreadyListedReason, canonicalEmail, normalizeEmail, type NormalizeOptions } from "./normalize";
+import { createRecipient } from "./recipient";
+import { suppressionReason, type SuppressionMatcher } from "./suppressions";
+import type { Recipient } from "./types";
+
+/** A sheet's cells as text, one array per row, padded to the same width. */
+export type SheetGrid = string[][];
+
+/** How the columns of a sheet turn into recipients. Rows and columns are 0-based. */
+export interface ColumnMapping {
+  /** The row holding the column names, or null when the data starts on the first row. */
+  headerRow: number | null;
+  emailColumn: number;
+  nameColumn: number | null;
+  /** Columns kept as merge fields, named after their header. */
+  fieldColumns: number[];
+}
+
+/** One data row of a sheet, read through a column mapping. */
+export interface ImportRow {
+  /** 1-based, counted from the top of the sheet. */
+  row: number;
+  email: string;
+  name?: string;
+  fields: Record<string, string>;
+  /** Every cell of the row, for the rejected-rows report. */
+  cells: string[];
+}
+
+export type ImportRowStatus = "new" | "duplicate" | "invalid" | "suppressed";
+
+export interface ImportRowReview {
+  status: ImportRowStatus;
+  /** Why the row will not be imported; unset for new rows. */
+  reason?: string;
+}
+
+export interface SpreadsheetImport {
+  recipients: Recipient[];
+  /** How many rows were left out, by why. */
+  skipped: { duplicate: number; invalid: number; suppressed: number; deselected: number };
+}
+
+const NAME_HEADER = /^(full[\s_-]?name|display[\s_-]?name|name|contact)$/i;
+const FIRST_NAME_HEADER = /^(first|given)[\s_-]?name$/i;
+const EMAIL_HEADER = /e-?mail/i;
+
+export interface WorkbookSheet {
+  name: string;
+  grid: SheetGrid;
+}
+
+// Rows converted between progress reports
+const CHUNK_ROWS = 2000;
+
+const sheetRange = (worksheet: XLSX.WorkSheet) =>
+  worksheet["!ref"] ? XLSX.utils.decode_range(worksheet["!ref"]) : null;
+
+const sheetToGrid = (worksheet: XLSX.WorkSheet, onRows: (count: number) => void): SheetGrid => {
+  const range = sheetRange(worksheet);
+  if (!range) return [];
+
+  const rows: unknown[][] = [];
+  for (let start = range.s.r; start <= range.e.r; start += CHUNK_ROWS) {
+    const end = Math.min(start + CHUNK_ROWS - 1, range.e.r);
+    const chunk = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+      header: 1,
+      raw: false,
+      defval: "",
+      blankrows: true,
+      range: { s: { r: start, c: range.s.c }, e: { r: end, c: range.e.c } },
+    });
+    for (const row of chunk) rows.push(row);
+    onRows(end - start + 1);
+  }
+
+  // Spreading the row lengths into Math.max overflows the stack on large sheets
+  const width = rows.reduce((widest, row) => Math.max(widest, row.length), 0);
+  return rows.map(row => Array.from({ length: width }, (_, column) => String(row[column] ?? "").trim()));
+};
+
+/**
+ * Reads every sheet of an Excel or CSV file. This blocks for as long as the
+ * file is large, so the app calls it from a worker; see `readWorkbookFile`.
+ * `onProgress` gets the fraction of rows converted so far.
+ */
+export const readSheets = (data: ArrayBuffer, onProgress?: (fraction: number) => void): WorkbookSheet[] => {
+  const workbook = XLSX.read(new Uint8Array(data), { type: "array" });
+  const total = workbook.SheetNames.reduce((sum, name) => {
+    const range = sheetRange(workbook.Sheets[name]);
+    return sum + (range ? range.e.r - range.s.r + 1 : 0);
+  }, 0);
+
+  let converted = 0;
+  return workbook.SheetNames.map(name => ({
+    name,
+    grid: sheetToGrid(workbook.Sheets[name], count => {
+      converted += count;
+      onProgress?.(converted / total);
+    }),
+  }));
+};
+
+/** Spreadsheet-style letter for a 0-based column index: A, B, ... Z, AA, ... */
+export const columnLetter = (column: number) => XLSX.utils.encode_col(column);
+
+/** Display names for each column: the header text, or the column letter when there is none. */
+export const columnNames = (grid: SheetGrid, headerRow: number | null) =>
+  (grid[0] ?? []).map((_, column) => (headerRow !== null && grid[headerRow]?.[column]) || `Column ${columnLetter(column)}`);
+
+// The column names are usually in the last non-blank row above the first address,
+// below any title rows. A first row that already holds addresses is data.
+const guessHeaderRow = (grid: SheetGrid) => {
+  const firstEmailRow = grid.findIndex(row => row.some(isValidAddress));
+  if (firstEmailRow === -1) return grid.length > 1 ? 0 : null;
+  for (let row = firstEmailRow - 1; row >= 0; row--) {
+    if (grid[row].some(cell => cell !== "")) return row;
+  }
+  return null;
+};
+
+/** Picks the most likely mapping, for the user to adjust. */
+export const guessColumnMapping = (grid: SheetGrid, headerRow?: number | null): ColumnMapping => {
+  const width = grid[0]?.length ?? 0;
+  const header = headerRow !== undefined ? headerRow : guessHeaderRow(grid);
+  const headers = header !== null ? grid[header] : [];
+  const firstDataRow = header === null ? 0 : header + 1;
+  const sample = grid.slice(firstDataRow, firstDataRow + 100);
+
+  const emailScores = Array.from({ length: width }, (_, column) =>
+    sample.filter(row => isValidAddress(row[column])).length + (EMAIL_HEADER.test(headers[column] ?? "") ? 0.5 : 0),
+  );
+  const emailColumn = emailScores.indexOf(Math.max(0, ...emailScores));
+
+  const findHeader = (pattern: RegExp) => {
+    const column = headers.findIndex((text, index) => index !== emailColumn && pattern.test(text));
+    return column === -1 ? null : column;
+  };
+  const nameColumn = findHeader(NAME_HEADER) ?? findHeader(FIRST_NAME_HEADER);
+
+  return {
+    headerRow: header,
+    emailColumn: Math.max(emailColumn, 0),
+    nameColumn,
+    // Only named columns become fields by default; unnamed ones are usually notes or leftovers
+    fieldColumns: headers
+      .map((text, column) => (text && column !== emailColumn && column !== nameColumn ? column : -1))
+      .filter(column => column !== -1),
+  };
+};
+
+/** Reads every non-blank data row of `grid` according to `mapping`. */
+export const readImportRows = (grid: SheetGrid, mapping: ColumnMapping): ImportRow[] => {
+  const names = columnNames(grid, mapping.headerRow);
+  const firstDataRow = mapping.headerRow === null ? 0 : mapping.headerRow + 1;
+
+  return grid.slice(firstDataRow).flatMap((cells, index) => {
+    if (cells.every(cell => cell === "")) return [];
+    return [{
+      row: firstDataRow + index + 1,
+      email: cells[mapping.emailColumn] ?? "",
+      name: mapping.nameColumn !== null ? cells[mapping.nameColumn] || undefined : undefined,
+      fields: Object.fromEntries(
+        mapping.fieldColumns
+          .filter(column => cells[column] !== "")
+          .map(column => [names[column], cells[column]]),
+      ),
+      cells,
+    }];
+  });
+};
+
+/**
+ * Decides which rows can be imported. The first row with an address wins;
+ * later rows with the same address, and addresses already on the list, are
+ * duplicates. `existing` maps canonical addresses to listed ones; see
+ * `indexAddresses`. Addresses on the suppression list are never imported.
+ */
+export const reviewImportRows = (
+  rows: ImportRow[],
+  existing: Map<string, string>,
+  options: NormalizeOptions = {},
+  suppressionFor: SuppressionMatcher = () => undefined,
+): ImportRowReview[] => {
+  const firstRowFor = new Map<string, number>();
+  return rows.map(({ row, email }): ImportRowReview => {
+    const address = normalizeEmail(email);
+    if (!address) return { status: "invalid", reason: "No email address" };
+    const validation = validateAddress(address);
+    if (!validation.valid) return { status: "invalid", reason: validation.reason };
+    const suppression = suppressionFor(address);
+    if (suppression) return { status: "suppressed", reason: suppressionReason(suppression) };
+
+    const key = canonicalEmail(address, options);
+    const listed = existing.get(key);
+    if (listed !== undefined) return { status: "duplicate", reason: alreadyListedReason(address, listed) };
+    const first = firstRowFor.get(key);
+    if (first !== undefined) return { status: "duplicate", reason: `Same address as row ${first}` };
+    firstRowFor.set(key, row);
+    return { status: "new" };
+  });
+};
+
+export const importRowToRecipient = ({ email, name, fields }: ImportRow, fileName: string) =>
+  createRecipient(normalizeEmail(email), { kind: "import", fileName }, { name, fields });
+
+/** A CSV listing each rejected row with the reason and its original cells. */
+export const rejectedRowsReport = (
+  rejected: { row: ImportRow; reason: string }[],
+  columns: string[],
+) => {
+  const grid = [
+    ["Row", "Email", "Reason", ...columns],
+    ...rejected.map(({ row, reason }) => [row.row, row.email, reason, ...row.cells]),
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(grid.map(cells => cells.map(escapeFormula)));
+  return XLSX.utils.sheet_to_csv(sheet);
+};
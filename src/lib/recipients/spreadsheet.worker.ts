@@ -0,0 +1,30 @@
+// Runs readSheets and the address book parsers off the main thread; started by readWorkbookFile.
+import { isContactFile, readContactSheets } from "./contacts";
+import { readSheets } from "./spreadsheet";
+import type { WorkbookWorkerRequest, WorkbookWorkerResponse } from "./workbook-reader";
+
+// The app is type-checked against the DOM library, where `self` is a Window
+const scope = self as unknown as Worker;
+
+const post = (response: WorkbookWorkerResponse) => scope.postMessage(response);
+
+scope.onmessage = async ({ data }: MessageEvent<WorkbookWorkerRequest>) => {
+  try {
+    const { file } = data;
+    post({ type: "progress", stage: "reading" });
+    if (isContactFile(file.name)) {
+      const text = await file.text();
+      post({ type: "progress", stage: "parsing" });
+      post({ type: "done", sheets: readContactSheets(text, file.name) });
+      return;
+    }
+    const buffer = await file.arrayBuffer();
+
+    post({ type: "progress", stage: "parsing" });
+    const sheets = readSheets(buffer, fraction => post({ type: "progress", stage: "converting", fraction }));
+
+    post({ type: "done", sheets });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
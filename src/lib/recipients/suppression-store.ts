@@ -0,0 +1,24 @@
+import { requestToPromise, withTransaction } from "@/lib/db";
+import type { Suppression } from "./types";
+
+/** Stores the entries not already suppressed and resolves with them. */
+export const addSuppressionRecords = (suppressions: Suppression[]) =>
+  withTransaction("suppressions", "readwrite", async transaction => {
+    const store = transaction.objectStore("suppressions");
+    const existing = await Promise.all(
+      suppressions.map(suppression => requestToPromise<IDBValidKey | undefined>(store.getKey(suppression.id))),
+    );
+    const added = suppressions.filter((_, index) => existing[index] === undefined);
+    added.forEach(suppression => store.put(suppression));
+    return added;
+  });
+
+export const getAllSuppressions = () =>
+  withTransaction("suppressions", "readonly", transaction =>
+    requestToPromise<Suppression[]>(transaction.objectStore("suppressions").getAll()),
+  );
+
+export const deleteSuppressionRecord = (id: string) =>
+  withTransaction("suppressions", "readwrite", transaction => {
+    transaction.objectStore("suppressions").delete(id);
+  });
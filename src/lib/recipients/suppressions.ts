@@ -0,0 +1,123 @@
+import { isValidAddress, toAsciiDomain, validateAddress } from "@/lib/mail";
+import { canonicalEmail } from "./normalize";
+import { addSuppressionRecords, deleteSuppressionRecord, getAllSuppressions } from "./suppression-store";
+import type { Suppression, SuppressionReason } from "./types";
+
+/** The suppression covering an address, if any. */
+export type SuppressionMatcher = (email: string) => Suppression | undefined;
+
+const reasonLabels: Record<SuppressionReason, string> = {
+  unsubscribed: "Unsubscribed",
+  bounced: "Hard bounced",
+  blocked: "Blocked",
+};
+
+const listeners = new Set<() => void>();
+
+export const subscribeToSuppressions = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Provider aliases reach the same mailbox, so suppressing one covers them all
+const addressId = (email: string) => canonicalEmail(email, { foldProviderAliases: true });
+
+const domainId = (domain: string) => `@${toAsciiDomain(domain.toLowerCase()) ?? domain.toLowerCase()}`;
+
+export const addressSuppression = (
+  email: string,
+  reason: SuppressionReason,
+  { detail, createdAt = Date.now() }: { detail?: string; createdAt?: number } = {},
+): Suppression => ({ id: addressId(email), kind: "address", value: email, reason, detail, createdAt });
+
+/** Stores the entries not suppressed yet and resolves with them; what is already there keeps its reason. */
+export const saveSuppressions = async (suppressions: Suppression[]) => {
+  const unique = [...new Map(suppressions.map(suppression => [suppression.id, suppression])).values()];
+  const added = await addSuppressionRecords(unique);
+  if (added.length > 0) notify();
+  return added;
+};
+
+/** Suppresses each valid address among `emails`, e.g. the ones a mail server reported as unknown. */
+export const suppressAddresses = (emails: string[], reason: SuppressionReason, detail?: string) =>
+  saveSuppressions(
+    emails
+      .map(email => email.trim())
+      .filter(isValidAddress)
+      .map(email => addressSuppression(email, reason, { detail })),
+  );
+
+/**
+ * Blocks what someone typed: an address, or a whole domain written as
+ * `example.com` or `@example.com`. Throws with a message to show them when it
+ * is neither, or is already suppressed.
+ */
+export const blockAddressOrDomain = async (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) throw new Error("Enter an address or a domain");
+
+  let suppression: Suppression;
+  if (trimmed.startsWith("@") || !trimmed.includes("@")) {
+    const domain = trimmed.replace(/^@/, "");
+    const validation = validateAddress(`postmaster@${domain}`);
+    if (!validation.valid || domain.startsWith("[")) {
+      throw new Error(validation.reason ?? "Enter a domain name, not an IP address");
+    }
+    suppression = { id: domainId(domain), kind: "domain", value: domain.toLowerCase(), reason: "blocked", createdAt: Date.now() };
+  } else {
+    const validation = validateAddress(trimmed);
+    if (!validation.valid) throw new Error(validation.reason);
+    suppression = addressSuppression(trimmed, "blocked");
+  }
+
+  const [added] = await saveSuppressions([suppression]);
+  if (!added) throw new Error(`${suppression.value} is already on the suppression list`);
+  return added;
+};
+
+export const removeSuppression = async (id: string) => {
+  await deleteSuppressionRecord(id);
+  notify();
+};
+
+/** Looks addresses up in `suppressions`. A suppressed domain covers its subdomains too. */
+export const createSuppressionMatcher = (suppressions: Suppression[]): SuppressionMatcher => {
+  const byId = new Map(suppressions.map(suppression => [suppression.id, suppression]));
+  return email => {
+    const address = byId.get(addressId(email));
+    if (address) return address;
+    const canonical = canonicalEmail(email);
+    const labels = canonical.slice(canonical.lastIndexOf("@") + 1).split(".");
+    for (let i = 0; i < labels.length - 1; i++) {
+      const domain = byId.get(`@${labels.slice(i).join(".")}`);
+      if (domain) return domain;
+    }
+    return undefined;
+  };
+};
+
+/** Loads the suppression list and looks addresses up in it as it is now. */
+export const loadSuppressionMatcher = async () => createSuppressionMatcher(await getAllSuppressions());
+
+/** Why an address is skipped, e.g. "Unsubscribed" or "Blocked: every address at example.com". */
+export const suppressionReason = ({ kind, value, reason }: Suppression) =>
+  kind === "domain" ? `${reasonLabels[reason]}: every address at ${value}` : reasonLabels[reason];
+
+// Enhanced status codes (RFC 3463) saying the mailbox doesn't exist or is disabled.
+// 5.1.7 and 5.1.8 are about the sender's address, so they aren't among them.
+const HARD_BOUNCE_CODES = new Set(["5.1.1", "5.1.2", "5.1.3", "5.1.6", "5.1.10", "5.2.1"]);
+
+/**
+ * Whether a permanent SMTP rejection means the mailbox doesn't exist or can't
+ * receive mail, as opposed to e.g. a spam or message size refusal that says
+ * nothing about the address. A reply without an enhanced status code never
+ * does: a bare 550 is used for too many other refusals.
+ */
+export const isHardBounce = (reply: string) => {
+  const enhanced = reply.match(/\b5\.\d{1,3}\.\d{1,3}\b/);
+  return enhanced !== null && HARD_BOUNCE_CODES.has(enhanced[0]);
+};
@@ -0,0 +1,47 @@
+/** Where a recipient came from. */
+export type RecipientSource =
+  | { kind: "manual" }
+  | { kind: "paste" }
+  | { kind: "import"; fileName: string };
+
+/** Someone on the recipients list, with everything known about them. */
+export interface Recipient {
+  email: string;
+  /** Display name, used to address them as `"Jane Doe" <jane@x.com>`. */
+  name?: string;
+  /** Extra values for personalizing content, e.g. the other columns of an imported spreadsheet. */
+  fields: Record<string, string>;
+  source: RecipientSource;
+  /** When they were added to the list, in epoch milliseconds. */
+  addedAt: number;
+}
+
+/** What can be changed about a recipient once they are on the list. */
+export type RecipientDetails = Pick<Recipient, "email" | "name" | "fields">;
+
+/** A named, saved set of recipients, e.g. "Q3 customers". */
+export interface RecipientList {
+  id: string;
+  name: string;
+  recipients: Recipient[];
+  /** Epoch milliseconds. */
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Why mail to an address or domain is held back. */
+export type SuppressionReason = "unsubscribed" | "bounced" | "blocked";
+
+/** An address, or a whole domain, that is never sent to. */
+export interface Suppression {
+  /** The canonical address, or `@` and the ASCII domain for a whole domain. */
+  id: string;
+  kind: "address" | "domain";
+  /** The address or domain as it was entered or reported. */
+  value: string;
+  reason: SuppressionReason;
+  /** e.g. the mail server's reply for a bounce. */
+  detail?: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+}
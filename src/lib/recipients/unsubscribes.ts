@@ -0,0 +1,55 @@
+import { isValidAddress } from "@/lib/mail";
+import { addressSuppression, saveSuppressions } from "./suppressions";
+
+const SYNC_INTERVAL_MS = 60_000;
+// How many of the mail API's unsubscribe requests have been taken in, so a
+// suppression removed by hand isn't brought back by the next sync
+const CURSOR_KEY = "mail-whisperer:unsubscribe-cursor";
+
+/** JSON body of the mail API's `GET /unsubscribes`. */
+interface UnsubscribesResponse {
+  unsubscribes: { address: string; at: number }[];
+  cursor: number;
+}
+
+/**
+ * Suppresses everyone who has unsubscribed through the mail API's
+ * `/unsubscribe` page since the last sync. Resolves with the entries added.
+ */
+export const syncUnsubscribes = async (apiUrl: string, apiToken?: string) => {
+  const after = Number(localStorage.getItem(CURSOR_KEY)) || 0;
+  const response = await fetch(`${apiUrl.replace(/\/+$/, "")}/unsubscribes?after=${after}`, {
+    headers: apiToken ? { Authorization: `Bearer ${apiToken}` } : {},
+  });
+  if (!response.ok) throw new Error(`Mail API responded with ${response.status}`);
+
+  const { unsubscribes, cursor } = (await response.json()) as UnsubscribesResponse;
+  const added = await saveSuppressions(
+    unsubscribes
+      .filter(({ address }) => isValidAddress(address))
+      .map(({ address, at }) => addressSuppression(address, "unsubscribed", { createdAt: at })),
+  );
+  localStorage.setItem(CURSOR_KEY, String(cursor));
+  return added;
+};
+
+/**
+ * Syncs unsubscribe requests from the mail API now, every minute, and when
+ * the tab comes back into view. Returns a function that stops it.
+ */
+export const startUnsubscribeSync = (apiUrl: string, apiToken?: string) => {
+  const sync = () => {
+    syncUnsubscribes(apiUrl, apiToken).catch(error => console.error("Unsubscribe sync failed:", error));
+  };
+  sync();
+  const interval = setInterval(sync, SYNC_INTERVAL_MS);
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") sync();
+  };
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  return () => {
+    clearInterval(interval);
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+  };
+};
@@ -0,0 +1,116 @@
+import type { ContactCard } from "./contacts";
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+// Long lines are folded onto continuation lines that start with a space or tab
+const unfold = (text: string) => text.replace(/\r\n|\r/g, "\n").replace(/\n[ \t]/g, "");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+// Splits on `separator` where it isn't escaped with a backslash
+const splitUnescaped = (value: string, separator: string) => {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\" && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+// A content line is `[group.]NAME;PARAM=a,b;PARAM="x:y":value`; colons inside quotes belong to the params
+const parseLine = (line: string): VCardProperty | null => {
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [nameWithGroup, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string[]> = {};
+  for (const param of rawParams) {
+    const [key, rawValue] = param.includes("=") ? param.split(/=(.*)/s) : ["TYPE", param];
+    const values = rawValue.split(",").map(value => value.replace(/^"|"$/g, "").toLowerCase());
+    params[key.toUpperCase()] = [...(params[key.toUpperCase()] ?? []), ...values];
+  }
+
+  return {
+    name: nameWithGroup.slice(nameWithGroup.lastIndexOf(".") + 1).toUpperCase(),
+    params,
+    value: line.slice(colon + 1),
+  };
+};
+
+// vCard 3.0 marks the preferred address with TYPE=pref, 4.0 with PREF=1 (lowest wins)
+const preference = ({ params }: VCardProperty) => {
+  if (params.PREF) return Number(params.PREF[0]) || 100;
+  return params.TYPE?.includes("pref") ? 1 : 101;
+};
+
+const toContact = (properties: VCardProperty[]): ContactCard => {
+  const first = (name: string) => properties.find(property => property.name === name);
+  const text = (name: string) => {
+    const property = first(name);
+    return property ? unescapeText(splitUnescaped(property.value, ";")[0]).trim() : "";
+  };
+
+  let name = first("FN") ? unescapeText(first("FN")!.value).trim() : "";
+  if (!name && first("N")) {
+    // N is family;given;additional;prefixes;suffixes
+    const [family = "", given = ""] = splitUnescaped(first("N")!.value, ";").map(unescapeText);
+    name = [given, family].map(part => part.trim()).filter(Boolean).join(" ");
+  }
+
+  const emails = properties
+    .filter(property => property.name === "EMAIL")
+    .sort((a, b) => preference(a) - preference(b))
+    .map(property => unescapeText(property.value).replace(/^mailto:/i, "").trim())
+    .filter(Boolean);
+
+  const fields = Object.fromEntries(
+    [["Organization", text("ORG")], ["Title", text("TITLE")], ["Phone", text("TEL")]]
+      .filter(([, value]) => value !== ""),
+  );
+
+  return { name, emails, fields };
+};
+
+/** Reads every card of a vCard 3.0 or 4.0 file. */
+export const parseVCards = (text: string): ContactCard[] => {
+  const contacts: ContactCard[] = [];
+  let card: VCardProperty[] | null = null;
+
+  for (const line of unfold(text).split("\n")) {
+    const property = parseLine(line.trim());
+    if (!property) continue;
+
+    if (property.name === "BEGIN" && property.value.trim().toUpperCase() === "VCARD") {
+      card = [];
+    } else if (property.name === "END" && property.value.trim().toUpperCase() === "VCARD") {
+      if (card) contacts.push(toContact(card));
+      card = null;
+    } else {
+      card?.push(property);
+    }
+  }
+
+  return contacts;
+};
@@ -0,0 +1,85 @@
+import { DISPOSABLE_DOMAINS } from "./disposable-domains";
+
+export type RecipientWarningKind = "role" | "disposable" | "typo";
+
+/** Something about an address worth a second look before sending to it. */
+export interface RecipientWarning {
+  kind: RecipientWarningKind;
+  message: string;
+  /** For typos, the address it probably should have been. */
+  suggestion?: string;
+}
+
+// Shared mailboxes that reach a team or a machine rather than a person
+const ROLE_ACCOUNTS = new Set([
+  "abuse", "admin", "administrator", "billing", "contact", "do-not-reply", "donotreply", "enquiries",
+  "help", "hello", "hostmaster", "info", "inquiries", "mailer-daemon", "marketing", "newsletter",
+  "no-reply", "noreply", "office", "postmaster", "root", "sales", "security", "support", "team", "webmaster",
+]);
+
+// Mailbox providers common enough that a near miss is more likely a typo than a real domain
+const COMMON_DOMAINS = [
+  "aol.com", "att.net", "comcast.net", "gmail.com", "gmx.com", "gmx.de", "googlemail.com", "hotmail.co.uk",
+  "hotmail.com", "hotmail.fr", "icloud.com", "live.com", "mac.com", "mail.com", "me.com", "msn.com",
+  "outlook.com", "proton.me", "protonmail.com", "rocketmail.com", "verizon.net", "web.de", "yahoo.co.uk",
+  "yahoo.com", "yahoo.fr", "ymail.com",
+];
+// Real providers one edit away from a common one, e.g. email.com next to gmail.com, so never typos
+const NEAR_MISS_PROVIDERS = [
+  "aol.de", "aol.fr", "email.com", "gmx.at", "gmx.ch", "gmx.fr", "gmx.net", "hotmail.de", "hotmail.es",
+  "hotmail.it", "live.ca", "live.de", "live.fr", "live.nl", "mail.de", "outlook.de", "outlook.es", "outlook.fr",
+  "yahoo.ca", "yahoo.de", "yahoo.es", "yahoo.in", "yahoo.it",
+];
+const KNOWN_DOMAINS = new Set([...COMMON_DOMAINS, ...NEAR_MISS_PROVIDERS]);
+
+// Optimal string alignment distance: edits, with swapping two neighbours counting as one
+const editDistance = (a: string, b: string) => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+const suggestDomain = (domain: string) => {
+  if (KNOWN_DOMAINS.has(domain)) return null;
+  return COMMON_DOMAINS.find(common => Math.abs(common.length - domain.length) <= 1 && editDistance(domain, common) === 1) ?? null;
+};
+
+const isDisposable = (domain: string) => {
+  // Subdomains of a disposable service are just as disposable
+  const labels = domain.split(".");
+  return labels.some((_, index) => DISPOSABLE_DOMAINS.has(labels.slice(index).join(".")));
+};
+
+/** Everything that looks off about `email`; empty for an ordinary address. */
+export const recipientWarnings = (email: string): RecipientWarning[] => {
+  const at = email.lastIndexOf("@");
+  if (at === -1) return [];
+  const local = email.slice(0, at).toLowerCase().split("+")[0];
+  const domain = email.slice(at + 1).toLowerCase();
+
+  const warnings: RecipientWarning[] = [];
+  if (ROLE_ACCOUNTS.has(local)) {
+    warnings.push({ kind: "role", message: `${local}@ is usually a shared or unattended mailbox, not a person` });
+  }
+  if (isDisposable(domain)) {
+    warnings.push({ kind: "disposable", message: `${domain} hands out throwaway addresses that stop working soon after` });
+  }
+  const suggestion = suggestDomain(domain);
+  if (suggestion) {
+    warnings.push({
+      kind: "typo",
+      message: `${domain} looks like a typo of ${suggestion}`,
+      suggestion: `${email.slice(0, at)}@${suggestion}`,
+    });
+  }
+  return warnings;
+};
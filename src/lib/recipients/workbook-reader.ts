@@ -0,0 +1,66 @@
+import type { WorkbookSheet } from "./spreadsheet";
+
+export type WorkbookReadStage = "reading" | "parsing" | "converting";
+
+export interface WorkbookReadProgress {
+  stage: WorkbookReadStage;
+  /** How far along the stage is, from 0 to 1; unset while that can't be told. */
+  fraction?: number;
+}
+
+/** What the page posts to the spreadsheet worker. */
+export interface WorkbookWorkerRequest {
+  file: File;
+}
+
+/** What the spreadsheet worker posts back. */
+export type WorkbookWorkerResponse =
+  | ({ type: "progress" } & WorkbookReadProgress)
+  | { type: "done"; sheets: WorkbookSheet[] }
+  | { type: "error"; message: string };
+
+export interface ReadWorkbookOptions {
+  onProgress?: (progress: WorkbookReadProgress) => void;
+  /** Aborting stops the worker and rejects with the signal's reason. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Reads every sheet of an Excel or CSV file in a Web Worker, so that large
+ * files don't freeze the page. vCard and LDIF address books come back as a
+ * single sheet; see `readContactSheets`. Each call gets its own worker.
+ */
+export const readWorkbookFile = (file: File, { onProgress, signal }: ReadWorkbookOptions = {}) =>
+  new Promise<WorkbookSheet[]>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL("./spreadsheet.worker.ts", import.meta.url), { type: "module" });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = ({ data }: MessageEvent<WorkbookWorkerResponse>) => {
+      if (data.type === "progress") {
+        onProgress?.({ stage: data.stage, fraction: data.fraction });
+        return;
+      }
+      finish();
+      if (data.type === "done") resolve(data.sheets);
+      else reject(new Error(data.message));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "The spreadsheet worker failed to start"));
+    };
+
+    worker.postMessage({ file } satisfies WorkbookWorkerRequest);
+  });
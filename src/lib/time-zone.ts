@@ -0,0 +1,76 @@
+/** The IANA time zone the browser runs in, e.g. "Europe/Berlin". */
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/** Every IANA time zone the browser knows, falling back to the local one and UTC. */
+export const listTimeZones = (): string[] => {
+  // Intl.supportedValuesOf is newer than the ES2020 lib this project targets
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: "timeZone") => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf?.("timeZone") ?? [];
+  return [...new Set([localTimeZone(), "UTC", ...zones])];
+};
+
+const wallClockParts = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+};
+
+// How far the wall clock in `timeZone` is ahead of UTC at `instant`, in milliseconds
+const offsetAt = (instant: number, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = wallClockParts(instant, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * The instant at which the wall clock in `timeZone` shows the given date and
+ * time. `date` only contributes its calendar day, as picked in the browser.
+ * Times a daylight saving change skips are shifted by the size of the change.
+ */
+export const zonedTimeToInstant = (date: Date, time: string, timeZone: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes);
+  // The offset can differ either side of a DST change, so settle it in two passes
+  const guess = wallClock - offsetAt(wallClock, timeZone);
+  return wallClock - offsetAt(guess, timeZone);
+};
+
+/**
+ * Splits `instant` into the calendar day and "HH:mm" time shown in `timeZone`.
+ * The day comes back as a local Date so it can be handed to the calendar.
+ */
+export const instantToZonedTime = (instant: number, timeZone: string) => {
+  const { year, month, day, hour, minute } = wallClockParts(instant, timeZone);
+  return {
+    date: new Date(year, month - 1, day),
+    time: `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`,
+  };
+};
+
+/** e.g. "Tue, Mar 4, 2025, 9:30 AM GMT+1" */
+export const formatInTimeZone = (instant: number, timeZone: string) =>
+  new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(instant);
@@ -1,4 +1,6 @@
 
+import { Link } from "react-router-dom";
+import { Ban, CalendarClock, Inbox, Users } from "lucide-react";
 import { ContactForm } from "@/components/ContactForm";
 
 const Index = () => {
@@ -12,6 +14,24 @@ const Index = () => {
           <p className="text-lg text-gray-600 max-w-2xl mx-auto">
             Get in touch with us. Fill out the form below and we'll get back to you as soon as possible.
           </p>
+          <div className="flex items-center justify-center gap-6 mt-4">
+            <Link to="/outbox" className="inline-flex items-center gap-2 text-sm text-primary hover:underline">
+              <Inbox className="w-4 h-4" />
+              View outbox
+            </Link>
+            <Link to="/scheduled" className="inline-flex items-center gap-2 text-sm text-primary hover:underline">
+              <CalendarClock className="w-4 h-4" />
+              Scheduled messages
+            </Link>
+            <Link to="/lists" className="inline-flex items-center gap-2 text-sm text-primary hover:underline">
+              <Users className="w-4 h-4" />
+              Recipient lists
+            </Link>
+            <Link to="/suppressions" className="inline-flex items-center gap-2 text-sm text-primary hover:underline">
+              <Ban className="w-4 h-4" />
+              Suppression list
+            </Link>
+          </div>
         </div>
         
         <div className="max-w-2xl mx-auto">
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, Combine, Pencil, Send, Trash2, Users } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ListNameDialog } from "@/components/ListNameDialog";
+import { useRecipientLists } from "@/hooks/use-recipient-lists";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deleteList,
+  intersectLists,
+  intersectRecipients,
+  mergeLists,
+  mergeRecipients,
+  renameList,
+  type RecipientList,
+} from "@/lib/recipients";
+
+const PREVIEW_ADDRESSES = 3;
+
+type NamingAction =
+  | { kind: "rename"; list: RecipientList }
+  | { kind: "merge" | "intersect"; lists: RecipientList[] };
+
+const Lists = () => {
+  const { lists, isLoading } = useRecipientLists();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [naming, setNaming] = useState<NamingAction | null>(null);
+  const [deleting, setDeleting] = useState<RecipientList | null>(null);
+  const { toast } = useToast();
+
+  // Lists deleted elsewhere drop out of the selection
+  const selectedLists = lists.filter(list => selected.has(list.id));
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await deleteList(deleting.id);
+    toggle(deleting.id, false);
+    toast({ title: "List Deleted", description: `"${deleting.name}" has been deleted.` });
+    setDeleting(null);
+  };
+
+  const handleName = async (name: string) => {
+    if (!naming) return;
+    if (naming.kind === "rename") {
+      await renameList(naming.list.id, name);
+      toast({ title: "List Renamed", description: `The list is now called "${name.trim()}".` });
+      return;
+    }
+    const ids = naming.lists.map(list => list.id);
+    const list = naming.kind === "merge" ? await mergeLists(name, ids) : await intersectLists(name, ids);
+    setSelected(new Set([list.id]));
+    toast({
+      title: "List Created",
+      description: `"${list.name}" holds ${list.recipients.length} recipient${list.recipients.length !== 1 ? 's' : ''}.`,
+    });
+  };
+
+  const namingDialog = (() => {
+    if (!naming) return { title: "", description: "", confirmLabel: "", initialName: "" };
+    if (naming.kind === "rename") {
+      return { title: "Rename List", description: "Lists are sorted by name.", confirmLabel: "Rename", initialName: naming.list.name };
+    }
+    const names = naming.lists.map(list => list.name);
+    const count = (naming.kind === "merge" ? mergeRecipients(naming.lists) : intersectRecipients(naming.lists)).length;
+    return naming.kind === "merge"
+      ? {
+        title: "Merge Lists",
+        description: `Creates a new list of everyone on any of ${names.join(", ")}: ${count} recipient${count !== 1 ? 's' : ''}. The original lists are kept.`,
+        confirmLabel: "Create List",
+        initialName: names.join(" + "),
+      }
+      : {
+        title: "Intersect Lists",
+        description: `Creates a new list of everyone on all of ${names.join(", ")}: ${count} recipient${count !== 1 ? 's' : ''}. The original lists are kept.`,
+        confirmLabel: "Create List",
+        initialName: names.join(" & "),
+      };
+  })();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-12 max-w-5xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to composer
+        </Link>
+
+        <Card className="bg-card shadow-lg">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl flex items-center gap-2">
+              <Users className="w-6 h-6 text-primary" />
+              Recipient Lists
+            </CardTitle>
+            <CardDescription>
+              Lists are saved in this browser. Create one with "Save as List" in the composer, then select two or more here to merge or intersect them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selectedLists.length < 2}
+                onClick={() => setNaming({ kind: "merge", lists: selectedLists })}
+              >
+                <Combine className="w-3 h-3 mr-1" />
+                Merge
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={selectedLists.length < 2}
+                onClick={() => setNaming({ kind: "intersect", lists: selectedLists })}
+              >
+                Intersect
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                {selectedLists.length > 0 ? `${selectedLists.length} selected` : "Select lists to combine them"}
+              </span>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">Loading lists...</p>
+            ) : lists.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Users className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p className="text-sm">No saved lists yet</p>
+                <p className="text-xs">Add recipients in the composer, then use "Save as List"</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Name</TableHead>
+                    <TableHead>Recipients</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lists.map(list => (
+                    <TableRow key={list.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(list.id)}
+                          onCheckedChange={checked => toggle(list.id, checked === true)}
+                          aria-label={`Select ${list.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="max-w-[16rem]">
+                        <p className="font-medium truncate">{list.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {list.recipients.slice(0, PREVIEW_ADDRESSES).map(recipient => recipient.email).join(", ")}
+                          {list.recipients.length > PREVIEW_ADDRESSES && ", ..."}
+                        </p>
+                      </TableCell>
+                      <TableCell>{list.recipients.length}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{format(list.updatedAt, "PP")}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" className="h-8" asChild>
+                          <Link to={`/?list=${list.id}`}>
+                            <Send className="w-3 h-3 mr-1" />
+                            Compose
+                          </Link>
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8" onClick={() => setNaming({ kind: "rename", list })}>
+                          <Pencil className="w-3 h-3 mr-1" />
+                          Rename
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 hover:text-destructive"
+                          onClick={() => setDeleting(list)}
+                        >
+                          <Trash2 className="w-3 h-3 mr-1" />
+                          Delete
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <ListNameDialog
+        open={naming !== null}
+        {...namingDialog}
+        onConfirm={handleName}
+        onOpenChange={open => !open && setNaming(null)}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={open => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The list is removed from this browser. Messages already sent to it are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Lists;
@@ -0,0 +1,217 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft, Ban, Inbox, RotateCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DeliveryStatusBadge } from "@/components/DeliveryStatusBadge";
+import { useOutbox } from "@/hooks/use-outbox";
+import { useToast } from "@/hooks/use-toast";
+import { cancelJobs, clearFinishedJobs, jobDeliveryStatus, retryJobs, type OutboxJob } from "@/lib/outbox";
+
+type OutboxFilter = "scheduled" | "pending" | "retrying" | "failed" | "sent" | "all";
+
+const filters: { value: OutboxFilter; label: string; matches: (job: OutboxJob) => boolean }[] = [
+  { value: "scheduled", label: "Scheduled", matches: job => jobDeliveryStatus(job).state === "scheduled" },
+  { value: "pending", label: "Pending", matches: job => ["queued", "sending"].includes(jobDeliveryStatus(job).state) },
+  { value: "retrying", label: "Retrying", matches: job => job.state === "pending" && job.attempts > 0 },
+  { value: "failed", label: "Failed", matches: job => job.state === "failed" },
+  { value: "sent", label: "Sent", matches: job => job.state === "sent" },
+  { value: "all", label: "All", matches: () => true },
+];
+
+const canRetry = (job: OutboxJob) => job.state === "failed" || job.state === "cancelled" || (job.state === "pending" && job.attempts > 0);
+const canCancel = (job: OutboxJob) => job.state === "pending" || job.state === "failed";
+
+const Outbox = () => {
+  const { messages, jobs, isLoading } = useOutbox();
+  const [filter, setFilter] = useState<OutboxFilter>("pending");
+  const { toast } = useToast();
+
+  const subjects = useMemo(
+    () => new Map(messages.map(({ id, message }) => [id, message.subject])),
+    [messages],
+  );
+  const counts = useMemo(
+    () => Object.fromEntries(filters.map(({ value, matches }) => [value, jobs.filter(matches).length])) as Record<OutboxFilter, number>,
+    [jobs],
+  );
+  const visibleJobs = useMemo(() => {
+    const { matches } = filters.find(f => f.value === filter)!;
+    return jobs.filter(matches).sort((a, b) => b.updatedAt - a.updatedAt);
+  }, [jobs, filter]);
+
+  const handleRetry = async (ids: string[]) => {
+    try {
+      await retryJobs(ids);
+    } catch (error) {
+      toast({
+        title: "Retry Failed",
+        description: "Could not update the outbox. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async (ids: string[]) => {
+    try {
+      await cancelJobs(ids);
+      toast({
+        title: "Delivery Cancelled",
+        description: `${ids.length} job${ids.length !== 1 ? 's' : ''} will not be sent.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Cancel Failed",
+        description: "Could not update the outbox. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClearFinished = async () => {
+    try {
+      await clearFinishedJobs();
+      toast({
+        title: "Outbox Cleaned Up",
+        description: "Sent and cancelled items have been removed.",
+      });
+    } catch (error) {
+      toast({
+        title: "Clean Up Failed",
+        description: "Could not update the outbox. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const failedIds = jobs.filter(job => job.state === "failed").map(job => job.id);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-12 max-w-5xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to composer
+        </Link>
+
+        <Card className="bg-card shadow-lg">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl flex items-center gap-2">
+              <Inbox className="w-6 h-6 text-primary" />
+              Outbox
+            </CardTitle>
+            <CardDescription>
+              Every outgoing message is kept here until delivered. Temporary failures are retried automatically with increasing delays.
+              To edit or reschedule a message before it goes out, use{" "}
+              <Link to="/scheduled" className="text-primary hover:underline">Scheduled messages</Link>.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <Tabs value={filter} onValueChange={value => setFilter(value as OutboxFilter)}>
+                <TabsList>
+                  {filters.map(({ value, label }) => (
+                    <TabsTrigger key={value} value={value}>
+                      {label} ({counts[value]})
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={failedIds.length === 0}
+                  onClick={() => handleRetry(failedIds)}
+                  className="text-xs"
+                >
+                  <RotateCw className="w-3 h-3 mr-1" />
+                  Retry All Failed
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={counts.sent === 0 && !jobs.some(job => job.state === "cancelled")}
+                  onClick={handleClearFinished}
+                  className="text-xs hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
+                >
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  Clear Finished
+                </Button>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">Loading outbox...</p>
+            ) : visibleJobs.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Inbox className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p className="text-sm">Nothing here</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleJobs.map(job => (
+                    <TableRow key={job.id}>
+                      <TableCell className="font-medium break-all">{job.address}</TableCell>
+                      <TableCell className="max-w-[12rem] truncate">{subjects.get(job.messageId) ?? "—"}</TableCell>
+                      <TableCell>
+                        <DeliveryStatusBadge status={jobDeliveryStatus(job)} />
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {job.lastError && <p className="text-destructive">{job.lastError}</p>}
+                        {job.state === "pending" && job.attempts > 0 && (
+                          <p>
+                            Attempt {job.attempts + 1} of {job.maxAttempts}{" "}
+                            {formatDistanceToNow(job.nextAttemptAt, { addSuffix: true })}
+                          </p>
+                        )}
+                        {jobDeliveryStatus(job).state === "scheduled" && (
+                          <p>Goes out {formatDistanceToNow(job.nextAttemptAt, { addSuffix: true })}</p>
+                        )}
+                        {job.state === "sent" && <p>Sent {formatDistanceToNow(job.updatedAt, { addSuffix: true })}</p>}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {canRetry(job) && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRetry([job.id])} className="h-8">
+                            <RotateCw className="w-3 h-3 mr-1" />
+                            {job.state === "pending" ? "Retry now" : "Retry"}
+                          </Button>
+                        )}
+                        {canCancel(job) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleCancel([job.id])}
+                            className="h-8 hover:text-destructive"
+                          >
+                            <Ban className="w-3 h-3 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Outbox;
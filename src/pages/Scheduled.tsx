@@ -0,0 +1,262 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft, Ban, CalendarClock, Pencil, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { SendLaterPicker } from "@/components/SendLaterPicker";
+import { useOutbox } from "@/hooks/use-outbox";
+import { useToast } from "@/hooks/use-toast";
+import { hasPlaceholders, parseTemplate } from "@/lib/mail";
+import {
+  cancelWaitingMessage,
+  editWaitingMessage,
+  isAwaitingDispatch,
+  rescheduleMessage,
+  type OutboxMessage,
+  type SendSchedule,
+} from "@/lib/outbox";
+import { formatInTimeZone, localTimeZone } from "@/lib/time-zone";
+
+const editSchema = z.object({
+  subject: z.string().min(5, "Subject must be at least 5 characters"),
+  message: z.string().min(10, "Message must be at least 10 characters"),
+});
+
+type EditFormData = z.infer<typeof editSchema>;
+
+interface EditMessageDialogProps {
+  message: OutboxMessage | null;
+  onClose: () => void;
+  onSave: (id: string, data: EditFormData) => Promise<void>;
+}
+
+const EditMessageDialog = ({ message, onClose, onSave }: EditMessageDialogProps) => {
+  const form = useForm<EditFormData>({
+    resolver: zodResolver(editSchema),
+    values: { subject: message?.message.subject ?? "", message: message?.message.text ?? "" },
+  });
+
+  const onSubmit = async (data: EditFormData) => {
+    if (!message) return;
+    // Recipients' values for placeholders are only kept when the message was composed with some
+    for (const field of ["subject", "message"] as const) {
+      const [error] = parseTemplate(data[field]).errors;
+      const problem = error ?? (!message.message.mergeFields && hasPlaceholders(data[field])
+        ? "Placeholders can only be added while composing the message"
+        : undefined);
+      if (problem) {
+        form.setError(field, { message: problem });
+        return;
+      }
+    }
+    await onSave(message.id, data);
+    onClose();
+  };
+
+  return (
+    <Dialog open={message !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Scheduled Message</DialogTitle>
+          <DialogDescription>Changes apply to every recipient who has not been sent the message yet.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="subject"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Subject</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={8} className="resize-none" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Save Changes
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const Scheduled = () => {
+  const { messages, jobs, isLoading } = useOutbox();
+  const [editing, setEditing] = useState<OutboxMessage | null>(null);
+  const { toast } = useToast();
+
+  const scheduled = useMemo(
+    () => messages
+      .filter(message => message.scheduledAt !== undefined)
+      .map(message => ({ message, jobs: jobs.filter(job => job.messageId === message.id) }))
+      .filter(entry => isAwaitingDispatch(entry.jobs))
+      .sort((a, b) => a.message.scheduledAt! - b.message.scheduledAt!),
+    [messages, jobs],
+  );
+
+  // The message may have gone out between rendering and clicking
+  const tryChange = async (change: () => Promise<void>, success: { title: string; description: string }) => {
+    try {
+      await change();
+      toast(success);
+    } catch (error) {
+      toast({
+        title: "Could Not Update Message",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = (id: string, data: EditFormData) =>
+    tryChange(
+      () => editWaitingMessage(id, { subject: data.subject, text: data.message }),
+      { title: "Message Updated", description: "The scheduled message has been saved." },
+    );
+
+  const handleReschedule = (id: string, schedule: SendSchedule) =>
+    tryChange(
+      () => rescheduleMessage(id, schedule),
+      { title: "Message Rescheduled", description: `It will be sent ${formatInTimeZone(schedule.at, schedule.timeZone)}.` },
+    );
+
+  const handleSendNow = (message: OutboxMessage) =>
+    tryChange(
+      () => rescheduleMessage(message.id, { at: Date.now(), timeZone: message.timeZone ?? localTimeZone() }),
+      { title: "Message Sent", description: "Delivery results are listed in the outbox." },
+    );
+
+  const handleCancel = (id: string) =>
+    tryChange(
+      () => cancelWaitingMessage(id),
+      { title: "Scheduled Send Cancelled", description: "The message will not be sent." },
+    );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-12 max-w-5xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to composer
+        </Link>
+
+        <Card className="bg-card shadow-lg">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl flex items-center gap-2">
+              <CalendarClock className="w-6 h-6 text-primary" />
+              Scheduled Messages
+            </CardTitle>
+            <CardDescription>
+              Messages waiting for their send time. They go out while this app is open in a browser tab; anything that fell due while it was closed is sent as soon as it is opened again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">Loading scheduled messages...</p>
+            ) : scheduled.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <CalendarClock className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p className="text-sm">No messages are scheduled</p>
+                <p className="text-xs">Use "Send later" in the composer to schedule one</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Recipients</TableHead>
+                    <TableHead>Send Time</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {scheduled.map(({ message, jobs: messageJobs }) => {
+                    const schedule = { at: message.scheduledAt!, timeZone: message.timeZone ?? localTimeZone() };
+                    const recipientCount = messageJobs.filter(job => job.state === "pending").length;
+                    return (
+                      <TableRow key={message.id}>
+                        <TableCell className="font-medium max-w-[14rem] truncate">{message.message.subject}</TableCell>
+                        <TableCell>{recipientCount}</TableCell>
+                        <TableCell className="text-sm">
+                          <p>{formatInTimeZone(schedule.at, schedule.timeZone)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(schedule.at, { addSuffix: true })}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => setEditing(message)} className="h-8">
+                            <Pencil className="w-3 h-3 mr-1" />
+                            Edit
+                          </Button>
+                          <SendLaterPicker
+                            initial={schedule}
+                            confirmLabel="Reschedule"
+                            onConfirm={next => handleReschedule(message.id, next)}
+                          >
+                            <Button variant="ghost" size="sm" className="h-8">
+                              <CalendarClock className="w-3 h-3 mr-1" />
+                              Reschedule
+                            </Button>
+                          </SendLaterPicker>
+                          <Button variant="ghost" size="sm" onClick={() => handleSendNow(message)} className="h-8">
+                            <Send className="w-3 h-3 mr-1" />
+                            Send now
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleCancel(message.id)}
+                            className="h-8 hover:text-destructive"
+                          >
+                            <Ban className="w-3 h-3 mr-1" />
+                            Cancel
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <EditMessageDialog message={editing} onClose={() => setEditing(null)} onSave={handleSave} />
+    </div>
+  );
+};
+
+export default Scheduled;
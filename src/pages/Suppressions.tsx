@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, Ban, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useSuppressions } from "@/hooks/use-suppressions";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { blockAddressOrDomain, removeSuppression, type Suppression, type SuppressionReason } from "@/lib/recipients";
+
+const reasonStyles: Record<SuppressionReason, { label: string; className: string }> = {
+  unsubscribed: { label: "Unsubscribed", className: "bg-blue-100 text-blue-700" },
+  bounced: { label: "Hard bounce", className: "bg-destructive/15 text-destructive" },
+  blocked: { label: "Blocked", className: "bg-muted text-muted-foreground" },
+};
+
+const Suppressions = () => {
+  const { suppressions, isLoading } = useSuppressions();
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const { toast } = useToast();
+
+  const handleBlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsAdding(true);
+    try {
+      const added = await blockAddressOrDomain(value);
+      setValue("");
+      setError(null);
+      toast({
+        title: "Added to Suppression List",
+        description: added.kind === "domain"
+          ? `No address at ${added.value} will be sent to.`
+          : `${added.value} will not be sent to.`,
+      });
+    } catch (blockError) {
+      setError(blockError instanceof Error ? blockError.message : "The entry could not be added");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (suppression: Suppression) => {
+    await removeSuppression(suppression.id);
+    toast({
+      title: "Removed from Suppression List",
+      description: `${suppression.value} can be sent to again.`,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      <div className="container mx-auto px-4 py-12 max-w-5xl">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to composer
+        </Link>
+
+        <Card className="bg-card shadow-lg">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl flex items-center gap-2">
+              <Ban className="w-6 h-6 text-primary" />
+              Suppression List
+            </CardTitle>
+            <CardDescription>
+              Nothing is sent to these addresses and domains. Recipients who unsubscribe through the link in a message,
+              and addresses the mail server reports as unknown, are added automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleBlock} className="space-y-1">
+              <div className="flex gap-2">
+                <Input
+                  value={value}
+                  onChange={(e) => {
+                    setValue(e.target.value);
+                    setError(null);
+                  }}
+                  placeholder="jane@example.com, or example.com to block a whole domain"
+                  aria-invalid={error !== null}
+                  className={cn("flex-1", error && "border-destructive")}
+                />
+                <Button type="submit" disabled={isAdding || !value.trim()}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Block
+                </Button>
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </form>
+
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">Loading suppression list...</p>
+            ) : suppressions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Ban className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p className="text-sm">Nobody is suppressed</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Address or domain</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Added</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppressions.map(suppression => (
+                    <TableRow key={suppression.id}>
+                      <TableCell className="max-w-[20rem]">
+                        <p className="font-medium truncate">
+                          {suppression.kind === "domain" ? `Every address at ${suppression.value}` : suppression.value}
+                        </p>
+                        {suppression.detail && (
+                          <p className="text-xs text-muted-foreground truncate" title={suppression.detail}>
+                            {suppression.detail}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={cn("border-transparent", reasonStyles[suppression.reason].className)}>
+                          {reasonStyles[suppression.reason].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{format(suppression.createdAt, "PP")}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 hover:text-destructive"
+                          onClick={() => handleRemove(suppression)}
+                        >
+                          <Trash2 className="w-3 h-3 mr-1" />
+                          Remove
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Suppressions;
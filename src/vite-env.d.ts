@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MAIL_TRANSPORT?: "mock" | "http";
+  readonly VITE_MAIL_API_URL?: string;
+  readonly VITE_MAIL_API_TOKEN?: string;
+  readonly VITE_MAIL_RATE_PER_SECOND?: string;
+  readonly VITE_MAIL_RATE_PER_MINUTE?: string;
+  readonly VITE_MAIL_MAX_CONCURRENCY?: string;
+  readonly VITE_MAIL_BATCH_SIZE?: string;
+  readonly VITE_MAIL_BATCH_PAUSE_MS?: string;
+  readonly VITE_MAIL_UNDO_SEND_SECONDS?: string;
+}
@@ -8,6 +8,9 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    proxy: {
+      "/api": `http://localhost:${process.env.MAIL_API_PORT ?? 8787}`,
+    },
   },
   plugins: [
     react(),